@@ -0,0 +1,2 @@
+#!/usr/bin/env bash
+exec node "$(dirname "$0")/../server/dist/hook-pre-tool-use.js"
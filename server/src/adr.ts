@@ -0,0 +1,472 @@
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { writeFileAtomic } from './file-lock.js';
+import type { Decision, DecisionStatus } from './types.js';
+
+// Decisions as Architecture Decision Records: one MADR-style Markdown file
+// per decision in a directory such as `docs/adr/`, named `NNNN-slug.md`.
+// Exported files carry the decision's id in their front matter, which is
+// what keeps numbering stable across exports. The importer also reads
+// hand-written ADRs, in MADR or Nygard format.
+
+export const DEFAULT_ADR_DIR = path.join('docs', 'adr');
+
+const FILE_PATTERN = /^(\d{4})-.*\.md$/;
+const ID_KEY = 'decision-log-id';
+
+export interface AdrExportResult {
+  /** Files created or rewritten, relative to the ADR directory. */
+  written: string[];
+  unchanged: number;
+  /** Decisions imported from a file in this directory, left as they are. */
+  skipped: number;
+}
+
+export interface AdrImportResult {
+  decisions: Decision[];
+  /**
+   * Files, relative to the ADR directory, whose number another file also
+   * has. They are imported, but supersession naming that number isn't linked.
+   */
+  duplicateNumbers: string[];
+}
+
+interface AdrFile {
+  name: string;
+  number: number;
+  content: string;
+}
+
+function readAdrFiles(dir: string): AdrFile[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+  return names
+    .filter((name) => FILE_PATTERN.test(name))
+    .sort()
+    .map((name) => ({
+      name,
+      number: Number(name.slice(0, 4)),
+      content: fs.readFileSync(path.join(dir, name), 'utf-8'),
+    }));
+}
+
+// Where an imported decision came from, relative to the project root
+function adrSource(root: string, absDir: string, file: string): string {
+  return path.relative(root, path.join(absDir, file)).split(path.sep).join('/');
+}
+
+function adrNumber(n: number): string {
+  return String(n).padStart(4, '0');
+}
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60)
+      .replace(/-+$/, '') || 'decision'
+  );
+}
+
+// --- Front matter ---
+
+function splitFrontMatter(content: string): {
+  meta: Record<string, string>;
+  body: string;
+} {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { meta: {}, body: content };
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const kv = line.match(/^([\w-]+):\s*(.*)$/);
+    if (kv) meta[kv[1].toLowerCase()] = kv[2].trim();
+  }
+  return { meta, body: content.slice(match[0].length) };
+}
+
+function yamlString(value: string): string {
+  return /^[\w ./-]*$/.test(value) && value.trim() === value
+    ? value
+    : JSON.stringify(value);
+}
+
+function unquote(value: string): string {
+  const v = value.trim();
+  if (/^".*"$/.test(v)) {
+    try {
+      return JSON.parse(v);
+    } catch {
+      return v.slice(1, -1);
+    }
+  }
+  return v.replace(/^'(.*)'$/, '$1');
+}
+
+function parseList(value: string): string[] {
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map(unquote)
+    .filter(Boolean);
+}
+
+// --- Export ---
+
+function link(number: number | undefined, files: Map<number, string>) {
+  if (number === undefined) return 'an unexported decision';
+  const file = files.get(number);
+  return file
+    ? `[ADR-${adrNumber(number)}](${file})`
+    : `ADR-${adrNumber(number)}`;
+}
+
+/** Render one decision as a MADR-style ADR. */
+function renderAdr(
+  d: Decision,
+  numbers: Map<string, number>,
+  files: Map<number, string>,
+): string {
+  const status =
+    d.status === 'superseded'
+      ? `superseded by ADR-${adrNumber(numbers.get(d.superseded_by ?? '') ?? 0)}`
+      : d.status === 'deprecated'
+        ? 'deprecated'
+        : 'accepted';
+  const lines = [
+    '---',
+    `status: ${status}`,
+    `date: ${d.timestamp.slice(0, 10)}`,
+  ];
+  if (d.tags.length > 0) {
+    lines.push(`tags: [${d.tags.map(yamlString).join(', ')}]`);
+  }
+  lines.push(`${ID_KEY}: ${d.id}`, '---', '', `# ${d.topic}`, '');
+
+  lines.push('## Context and Problem Statement', '');
+  lines.push(
+    `${d.topic}. Recorded by decision-log in session ${d.session_id}.`,
+    '',
+  );
+
+  if (d.options.length > 0) {
+    lines.push('## Considered Options', '');
+    for (const o of d.options) {
+      lines.push(
+        o.description ? `* ${o.name} — ${o.description}` : `* ${o.name}`,
+      );
+    }
+    lines.push('');
+  }
+
+  lines.push('## Decision Outcome', '');
+  lines.push(`Chosen option: "${d.chosen}", because ${d.rationale}`, '');
+
+  lines.push('### Consequences', '');
+  const consequences: string[] = [];
+  const rejected = d.options.filter((o) => o.name !== d.chosen);
+  if (rejected.length > 0) {
+    consequences.push(
+      `* Rejected alternatives: ${rejected.map((o) => o.name).join(', ')}`,
+    );
+  }
+  if (d.supersedes) {
+    consequences.push(`* Supersedes ${link(numbers.get(d.supersedes), files)}`);
+  }
+  if (d.status === 'superseded') {
+    consequences.push(
+      `* Superseded by ${link(numbers.get(d.superseded_by ?? ''), files)}`,
+    );
+  }
+  if (d.status === 'deprecated') {
+    consequences.push(`* Deprecated: ${d.deprecated_reason}`);
+  }
+  lines.push(...(consequences.length > 0 ? consequences : ['* None recorded']));
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Write every decision to `dir` as an ADR. Decisions exported before keep
+ * their file and number; new ones are numbered after the highest existing
+ * ADR in timestamp order. Files are only rewritten when their content
+ * changes, so re-exporting produces a clean diff.
+ */
+export function exportAdrs(
+  decisions: Decision[],
+  root: string,
+  dir: string = DEFAULT_ADR_DIR,
+): AdrExportResult {
+  const absDir = path.resolve(root, dir);
+  fs.mkdirSync(absDir, { recursive: true });
+  const existing = readAdrFiles(absDir);
+
+  const fileById = new Map<string, AdrFile>();
+  for (const f of existing) {
+    const id = splitFrontMatter(f.content).meta[ID_KEY];
+    if (id) fileById.set(id, f);
+  }
+  const fileBySource = new Map(
+    existing.map((f) => [adrSource(root, absDir, f.name), f]),
+  );
+
+  const numbers = new Map<string, number>();
+  const files = new Map<number, string>();
+  let next = Math.max(0, ...existing.map((f) => f.number)) + 1;
+  const sorted = [...decisions].sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp),
+  );
+  const toWrite: Decision[] = [];
+  let skipped = 0;
+  for (const d of sorted) {
+    const f = fileById.get(d.id);
+    if (f) {
+      numbers.set(d.id, f.number);
+      files.set(f.number, f.name);
+      toWrite.push(d);
+      continue;
+    }
+    const imported = d.source ? fileBySource.get(d.source) : undefined;
+    if (imported) {
+      numbers.set(d.id, imported.number);
+      files.set(imported.number, imported.name);
+      skipped++;
+      continue;
+    }
+    const number = next++;
+    numbers.set(d.id, number);
+    files.set(number, `${adrNumber(number)}-${slugify(d.topic)}.md`);
+    toWrite.push(d);
+  }
+
+  const result: AdrExportResult = { written: [], unchanged: 0, skipped };
+  for (const d of toWrite) {
+    const name = files.get(numbers.get(d.id) ?? 0) ?? '';
+    const file = path.join(absDir, name);
+    const content = renderAdr(d, numbers, files);
+    if (fileById.get(d.id)?.content === content) {
+      result.unchanged++;
+      continue;
+    }
+    writeFileAtomic(file, content);
+    result.written.push(name);
+  }
+  return result;
+}
+
+// --- Import ---
+
+interface Section {
+  heading: string;
+  text: string;
+}
+
+function sections(body: string): Section[] {
+  const result: Section[] = [];
+  let current: Section | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    const h = line.match(/^#{2,3}\s+(.*)$/);
+    if (h) {
+      current = { heading: h[1].trim().toLowerCase(), text: '' };
+      result.push(current);
+    } else if (current) {
+      current.text += `${line}\n`;
+    }
+  }
+  for (const s of result) s.text = s.text.trim();
+  return result;
+}
+
+// The first of `names`, in order, that is exactly a heading — "decision"
+// must not pick up MADR's "Decision Drivers"
+function section(all: Section[], ...names: string[]): string {
+  for (const name of names) {
+    const found = all.find((s) => s.heading === name);
+    if (found) return found.text;
+  }
+  return '';
+}
+
+function bullets(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.match(/^\s*[*-]\s+(.*)$/)?.[1]?.trim())
+    .filter((l): l is string => Boolean(l));
+}
+
+// "* Status: accepted" and "Date: 2020-01-01" lines in older MADR/Nygard files
+function field(body: string, name: string): string | undefined {
+  const re = new RegExp(`^\\s*(?:[*-]\\s+)?${name}:\\s*(.+)$`, 'im');
+  return body.match(re)?.[1]?.trim();
+}
+
+function firstSentence(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? flat;
+}
+
+function statusOf(raw: string): DecisionStatus {
+  if (/supersed|replaced/i.test(raw)) return 'superseded';
+  if (/deprecat|rejected|obsolete/i.test(raw)) return 'deprecated';
+  return 'active';
+}
+
+export interface ParsedAdr {
+  number: number;
+  file: string;
+  /** Set when the file was written by exportAdrs. */
+  decisionId?: string;
+  decision: Omit<Decision, 'id' | 'session_id'>;
+  /** ADR number named in a "superseded by" status. */
+  supersededBy?: number;
+}
+
+/** Parse one ADR file. Returns null if it has no title. */
+export function parseAdr(file: string, content: string): ParsedAdr | null {
+  const { meta, body } = splitFrontMatter(content);
+  const title = body.match(/^#\s+(.+)$/m)?.[1]?.trim();
+  if (!title) return null;
+  const topic = title
+    .replace(/^(?:ADR[-\s]?)?\d+[.:]?\s*(?:[-—:]\s*)?/i, '')
+    .trim();
+  const all = sections(body);
+
+  const rawStatus =
+    meta.status ??
+    field(body, 'status') ??
+    section(all, 'status').split('\n')[0];
+  const status = statusOf(rawStatus ?? '');
+  const supersededNumber = rawStatus?.match(/(?:ADR[-\s]?)?(\d{1,4})/i)?.[1];
+
+  const rawDate = meta.date ?? field(body, 'date');
+  const date = rawDate && !Number.isNaN(Date.parse(rawDate)) ? rawDate : null;
+
+  const options = bullets(section(all, 'considered options')).map((b) => {
+    const [name, ...rest] = b.split(' — ');
+    return { name: unquote(name), description: rest.join(' — ') };
+  });
+
+  const outcome = section(all, 'decision outcome', 'decision');
+  const madr = outcome.match(
+    /Chosen option:\s*"?([^"\n]+?)"?\s*,\s*because\s+([\s\S]*?)(?:\n\s*\n|$)/i,
+  );
+  let chosen: string;
+  let rationale: string;
+  if (madr) {
+    chosen = madr[1].trim();
+    rationale = madr[2].replace(/\s+/g, ' ').trim();
+  } else {
+    const flat = outcome.replace(/\s+/g, ' ').trim();
+    chosen = firstSentence(flat) || topic;
+    rationale =
+      flat.slice(chosen.length).trim() ||
+      section(all, 'context and problem statement', 'context')
+        .replace(/\s+/g, ' ')
+        .trim();
+  }
+
+  const tags = meta.tags ? parseList(meta.tags) : [];
+  const consequences = section(all, 'consequences');
+  return {
+    number: Number(file.slice(0, 4)),
+    file,
+    decisionId: meta[ID_KEY],
+    supersededBy:
+      status === 'superseded' && supersededNumber
+        ? Number(supersededNumber)
+        : undefined,
+    decision: {
+      timestamp: date ? new Date(date).toISOString() : '',
+      topic,
+      options,
+      chosen,
+      rationale,
+      tags: tags.includes('adr') ? tags : [...tags, 'adr'],
+      status,
+      deprecated_reason:
+        status === 'deprecated'
+          ? (consequences.match(/Deprecated:\s*(.+)/)?.[1] ?? rawStatus)
+          : undefined,
+    },
+  };
+}
+
+/**
+ * Turn the ADRs in `dir` into decisions to log. Files exported from this
+ * log, and files imported before (matched by `source`), are skipped.
+ * Supersession between imported ADRs is linked up by number.
+ */
+export function importAdrs(
+  existing: Decision[],
+  sessionId: string,
+  root: string,
+  dir: string = DEFAULT_ADR_DIR,
+): AdrImportResult {
+  const absDir = path.resolve(root, dir);
+  const source = (file: string) => adrSource(root, absDir, file);
+  const known = new Set(existing.map((d) => d.id));
+  const seen = new Set(existing.map((d) => d.source).filter(Boolean));
+  const parsed: ParsedAdr[] = [];
+  for (const f of readAdrFiles(absDir)) {
+    const adr = parseAdr(f.name, f.content);
+    if (!adr) continue;
+    if (adr.decisionId && known.has(adr.decisionId)) continue;
+    if (seen.has(source(f.name))) continue;
+    if (!adr.decision.timestamp) {
+      adr.decision.timestamp = fs
+        .statSync(path.join(absDir, f.name))
+        .mtime.toISOString();
+    }
+    parsed.push(adr);
+  }
+
+  // Exported ADRs from another copy of the log keep their decision ids
+  const ids = new Map(
+    parsed.map((a) => [a.file, a.decisionId ?? randomUUID()]),
+  );
+  const byNumber = new Map<number, ParsedAdr[]>();
+  for (const a of parsed) {
+    byNumber.set(a.number, [...(byNumber.get(a.number) ?? []), a]);
+  }
+  // A number several files share doesn't say which one is meant
+  const idOfNumber = (n: number | undefined) => {
+    const found = n === undefined ? [] : (byNumber.get(n) ?? []);
+    return found.length === 1 ? ids.get(found[0].file) : undefined;
+  };
+
+  const decisions = parsed.map((a): Decision => {
+    const d: Decision = {
+      ...a.decision,
+      id: ids.get(a.file) ?? randomUUID(),
+      session_id: sessionId,
+      source: source(a.file),
+    };
+    if (a.decision.deprecated_reason === undefined) delete d.deprecated_reason;
+    const replacement = idOfNumber(a.supersededBy);
+    if (replacement) d.superseded_by = replacement;
+    // Superseded by an ADR we can't see: keep it visible as deprecated
+    else if (d.status === 'superseded') {
+      d.status = 'deprecated';
+      d.deprecated_reason =
+        a.supersededBy === undefined
+          ? 'Superseded'
+          : `Superseded by ADR-${adrNumber(a.supersededBy)}`;
+    }
+    return d;
+  });
+  for (const d of decisions) {
+    if (!d.superseded_by) continue;
+    const replacement = decisions.find((r) => r.id === d.superseded_by);
+    if (replacement) replacement.supersedes = d.id;
+  }
+  const duplicateNumbers = [...byNumber.values()]
+    .filter((group) => group.length > 1)
+    .flatMap((group) => group.map((a) => a.file));
+  return { decisions, duplicateNumbers };
+}
@@ -0,0 +1,41 @@
+import type { Approach, ApproachOutcome } from './types.js';
+
+// How approaches are written out by the tools, the PreCompact summary and the
+// CLI: one line for what was tried and how it went, then the structured
+// fields, if any, on a single line below it.
+
+export function outcomeLabel(outcome: ApproachOutcome): string {
+  return outcome.replace('_', ' ').toUpperCase();
+}
+
+/** `- FAILED: Bump the timeout — still flaky`. */
+export function approachLine(a: Approach, details = a.details): string {
+  return `- ${outcomeLabel(a.outcome)}: ${a.approach} — ${details}`;
+}
+
+/**
+ * The structured fields of an approach, e.g. ``hypothesis: pool exhausted ·
+ * ran: `npm test` · error: ECONNRESET``, or null when it has none. `clip`
+ * shortens each value.
+ */
+export function approachFacts(
+  a: Approach,
+  clip: (text: string) => string = (text) => text,
+): string | null {
+  const facts: string[] = [];
+  if (a.hypothesis) facts.push(`hypothesis: ${clip(a.hypothesis)}`);
+  if (a.commands?.length) {
+    facts.push(`ran: ${a.commands.map((c) => `\`${clip(c)}\``).join(', ')}`);
+  }
+  if (a.files_changed?.length) {
+    facts.push(`changed: ${clip(a.files_changed.join(', '))}`);
+  }
+  if (a.error_signature) facts.push(`error: ${clip(a.error_signature)}`);
+  return facts.length > 0 ? facts.join(' · ') : null;
+}
+
+/** An approach line followed by its indented facts line, if it has one. */
+export function approachLines(a: Approach): string[] {
+  const facts = approachFacts(a);
+  return facts ? [approachLine(a), `  ${facts}`] : [approachLine(a)];
+}
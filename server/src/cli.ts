@@ -0,0 +1,431 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { DEFAULT_ADR_DIR, exportAdrs, importAdrs } from './adr.js';
+import { approachLines } from './approaches.js';
+import { normalizeLinkPath } from './code-links.js';
+import { createDashboard, DEFAULT_DASHBOARD_PORT } from './dashboard.js';
+import { getProjectRoot } from './project-slug.js';
+import { projectStats, renderProjectStats } from './project-stats.js';
+import {
+  buildSessionReport,
+  findSession,
+  renderSessionReport,
+} from './session-report.js';
+import { Storage } from './storage.js';
+import type { Decision, DecisionRevision, Problem } from './types.js';
+
+const USAGE = `Usage: decision-log <command> [options]
+
+Commands:
+  list                    List decisions, newest first
+  show <id>               Show a decision or problem in full (D-12, P-3, or
+                          a unique prefix of the full id)
+  search <query>          Search decisions by relevance
+  problems                List problems from every session
+  sessions                List recorded sessions
+  report [session]        Summarize a session as Markdown (default: the
+                          latest; a unique prefix of its id also works)
+  stats                   Problem, failure and decision statistics across
+                          every session
+  edit <id>               Revise a decision (--topic, --chosen, --rationale, --tags)
+  delete <id>             Remove a decision recorded by mistake
+  export                  Write decisions as ADRs (default: ${DEFAULT_ADR_DIR})
+  import                  Read an ADR directory into the log
+  dashboard               Serve a read-only web view on localhost
+  doctor                  Check the stores' schema versions and records
+
+Options:
+  --json                  Machine-readable output
+  --all                   Include superseded and deprecated decisions
+  --tag <tag>             Only decisions with this tag (repeatable)
+  --path <path>           Only decisions linked to this file or a directory
+                          containing it
+  --status <status>       problems: open or resolved
+  --limit <n>             Maximum results (default: 50)
+  --dir <path>            export/import: ADR directory
+  --port <n>              dashboard: port (default: ${DEFAULT_DASHBOARD_PORT})
+  -h, --help              Show this help
+`;
+
+const DEFAULT_LIMIT = 50;
+
+function fail(message: string): never {
+  process.stderr.write(`decision-log: ${message}\n`);
+  process.exit(1);
+}
+
+function parse() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        all: { type: 'boolean' },
+        tag: { type: 'string', multiple: true },
+        path: { type: 'string' },
+        status: { type: 'string' },
+        limit: { type: 'string' },
+        port: { type: 'string' },
+        dir: { type: 'string', default: DEFAULT_ADR_DIR },
+        topic: { type: 'string' },
+        chosen: { type: 'string' },
+        rationale: { type: 'string' },
+        tags: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    fail(`${(err as Error).message}\n\n${USAGE}`);
+  }
+}
+
+const { values, positionals } = parse();
+const [command, ...args] = positionals;
+
+if (values.help || !command) {
+  process.stdout.write(USAGE);
+  process.exit(values.help ? 0 : 1);
+}
+
+function print(text: string): void {
+  process.stdout.write(`${text}\n`);
+}
+
+function printJson(value: unknown): void {
+  print(JSON.stringify(value, null, 2));
+}
+
+function limit(): number {
+  if (values.limit === undefined) return DEFAULT_LIMIT;
+  const n = Number(values.limit);
+  if (!Number.isInteger(n) || n < 1) fail('--limit must be a positive integer');
+  return n;
+}
+
+function requireId(): string {
+  if (!args[0]) fail(`${command} needs an id`);
+  return args[0];
+}
+
+function candidateLine(x: Decision | Problem): string {
+  return `${x.short_id ?? x.id}  ${'topic' in x ? x.topic : x.problem}  [${x.id}]`;
+}
+
+/** The decision or problem `ref` names; fails listing candidates if unclear. */
+function resolve(ref: string, kinds: 'decision' | 'any'): Decision | Problem {
+  const decisions = storage.lookupDecision(ref);
+  const problems =
+    kinds === 'any'
+      ? storage.lookupProblem(ref, { anySession: true })
+      : { match: null, candidates: [] };
+  const candidates = [...decisions.candidates, ...problems.candidates];
+  if (candidates.length === 1) return candidates[0];
+  const what = kinds === 'any' ? 'decision or problem' : 'decision';
+  if (candidates.length === 0) fail(`no ${what} with id ${ref}`);
+  fail(
+    `id ${ref} is ambiguous; candidates:\n${candidates.map((c) => `  ${candidateLine(c)}`).join('\n')}`,
+  );
+}
+
+function status(d: Decision): string {
+  return d.status === 'active' ? '' : ` [${d.status.toUpperCase()}]`;
+}
+
+function decisionLine(d: Decision): string {
+  const tags = d.tags.length > 0 ? ` (${d.tags.join(', ')})` : '';
+  return `${d.timestamp.slice(0, 10)}  ${d.short_id ?? d.id}  ${d.topic} → ${d.chosen}${tags}${status(d)}`;
+}
+
+function problemLine(p: Problem): string {
+  const failed = p.approaches.filter((a) => a.outcome === 'failed').length;
+  const state = p.status === 'open' ? 'OPEN' : 'RESOLVED';
+  return `${p.created_at.slice(0, 10)}  ${p.short_id ?? p.id}  [${state}] ${p.problem} (${p.approaches.length} approach(es), ${failed} failed)`;
+}
+
+function showDecision(d: Decision): void {
+  const lines = [
+    `${d.short_id ? `${d.short_id}  ` : ''}${d.topic}${status(d)}`,
+    `  id:         ${d.id}`,
+    `  date:       ${d.timestamp}`,
+    `  session:    ${d.session_id}`,
+  ];
+  if (d.tags.length > 0) lines.push(`  tags:       ${d.tags.join(', ')}`);
+  if (d.files?.length) lines.push(`  files:      ${d.files.join(', ')}`);
+  if (d.symbols?.length) lines.push(`  symbols:    ${d.symbols.join(', ')}`);
+  if (d.commit) lines.push(`  commit:     ${d.commit}`);
+  lines.push(`  chosen:     ${d.chosen}`, `  rationale:  ${d.rationale}`);
+  if (d.options.length > 0) {
+    lines.push('  options:');
+    for (const o of d.options) {
+      const mark = o.name === d.chosen ? '*' : '-';
+      lines.push(
+        `    ${mark} ${o.name}${o.description ? ` — ${o.description}` : ''}`,
+      );
+    }
+  }
+  if (d.supersedes) lines.push(`  supersedes: ${d.supersedes}`);
+  if (d.superseded_by) lines.push(`  superseded by: ${d.superseded_by}`);
+  if (d.deprecated_reason) lines.push(`  deprecated: ${d.deprecated_reason}`);
+  if (d.revised_at) lines.push(`  revised:    ${d.revised_at}`);
+  if (d.source) lines.push(`  source:     ${d.source}`);
+  print(lines.join('\n'));
+}
+
+function showProblem(p: Problem): void {
+  const lines = [
+    `${p.short_id ? `${p.short_id}  ` : ''}[${p.status === 'open' ? 'OPEN' : 'RESOLVED'}] ${p.problem}`,
+    `  id:         ${p.id}`,
+    `  created:    ${p.created_at}`,
+    `  session:    ${p.session_id}`,
+  ];
+  for (const a of p.approaches) {
+    lines.push(...approachLines(a).map((l) => `  ${l}`));
+  }
+  if (p.resolution) lines.push(`  resolution: ${p.resolution}`);
+  print(lines.join('\n'));
+}
+
+// Work from anywhere inside the checkout. The CLI records its own changes
+// under a "cli" session instead of adopting one meant for Claude Code.
+const root = getProjectRoot(process.cwd());
+const storage = new Storage(
+  root,
+  process.env.DECISION_LOG_SESSION_ID ?? 'cli',
+  { detached: true },
+);
+
+switch (command) {
+  case 'list':
+  case 'search': {
+    const query = command === 'search' ? args.join(' ') : undefined;
+    if (command === 'search' && !query) fail('search needs a query');
+    const { decisions, total } = storage.searchDecisions({
+      query,
+      tags: values.tag,
+      path:
+        values.path === undefined
+          ? undefined
+          : normalizeLinkPath(root, process.cwd(), values.path),
+      includeInactive: values.all,
+      sort: query ? 'relevance' : 'newest',
+      limit: limit(),
+    });
+    if (values.json) {
+      printJson({ decisions, total });
+      break;
+    }
+    if (decisions.length === 0) {
+      print('No decisions found.');
+      break;
+    }
+    for (const d of decisions) print(decisionLine(d));
+    if (total > decisions.length) {
+      print(`(${total - decisions.length} more — use --limit)`);
+    }
+    break;
+  }
+
+  case 'show': {
+    const found = resolve(requireId(), 'any');
+    if (values.json) printJson(found);
+    else if ('topic' in found) showDecision(found);
+    else showProblem(found);
+    break;
+  }
+
+  case 'problems': {
+    if (values.status && !['open', 'resolved'].includes(values.status)) {
+      fail('--status must be open or resolved');
+    }
+    const { problems, total } = storage.searchProblems({
+      status: values.status as Problem['status'] | undefined,
+      limit: limit(),
+    });
+    if (values.json) {
+      printJson({ problems, total });
+      break;
+    }
+    if (problems.length === 0) {
+      print('No problems found.');
+      break;
+    }
+    for (const p of problems) print(problemLine(p));
+    break;
+  }
+
+  case 'sessions': {
+    const state = storage.snapshot();
+    const sessions = storage.listSessions().map((s) => {
+      const r = buildSessionReport(s.session_id, s, state);
+      return {
+        ...s,
+        decisions: r.decisions.length,
+        problems: r.resolved.length + r.unresolved.length,
+        last_activity_at: r.last_activity_at ?? undefined,
+      };
+    });
+    if (values.json) {
+      printJson(sessions);
+      break;
+    }
+    if (sessions.length === 0) {
+      print('No sessions recorded.');
+      break;
+    }
+    for (const s of sessions) {
+      const branch = s.git_branch ? `  [${s.git_branch}]` : '';
+      const active = s.last_activity_at
+        ? `, last active ${s.last_activity_at.slice(0, 16).replace('T', ' ')}`
+        : '';
+      print(
+        `${s.started_at.slice(0, 16).replace('T', ' ')}  ${s.session_id}${branch}  ${s.decisions} decision(s), ${s.problems} problem(s)${active}`,
+      );
+    }
+    break;
+  }
+
+  case 'report': {
+    // The CLI's own session is rarely the one wanted
+    const sessions = storage
+      .listSessions()
+      .filter((s) => s.session_id !== storage.getSessionId());
+    let meta = sessions.at(-1);
+    if (args[0]) {
+      const lookup = findSession(storage.listSessions(), args[0]);
+      if (lookup.candidates.length > 1) {
+        fail(
+          `session ${args[0]} is ambiguous; candidates:\n${lookup.candidates.map((s) => `  ${s.session_id}  ${s.started_at}`).join('\n')}`,
+        );
+      }
+      if (!lookup.match) fail(`no session with id ${args[0]}`);
+      meta = lookup.match;
+    }
+    if (!meta) fail('no sessions recorded');
+    const report = buildSessionReport(
+      meta.session_id,
+      meta,
+      storage.snapshot(),
+    );
+    if (values.json) printJson(report);
+    else print(renderSessionReport(report));
+    break;
+  }
+
+  case 'stats': {
+    const stats = projectStats(
+      storage.snapshot(),
+      storage.listSessions().length,
+    );
+    if (values.json) printJson(stats);
+    else print(renderProjectStats(stats));
+    break;
+  }
+
+  case 'edit': {
+    const ref = requireId();
+    const changes: DecisionRevision = {};
+    if (values.topic !== undefined) changes.topic = values.topic;
+    if (values.chosen !== undefined) changes.chosen = values.chosen;
+    if (values.rationale !== undefined) changes.rationale = values.rationale;
+    if (values.tags !== undefined) {
+      changes.tags = values.tags
+        .split(',')
+        .map((t) => t.trim())
+        .filter(Boolean);
+    }
+    if (Object.keys(changes).length === 0) {
+      fail('nothing to change: pass --topic, --chosen, --rationale or --tags');
+    }
+    const d = resolve(ref, 'decision') as Decision;
+    if (d.status !== 'active') fail(`decision is ${d.status}`);
+    const revised = storage.reviseDecision(d.id, changes);
+    if (values.json) printJson(revised);
+    else print(`Revised: ${revised?.topic} → ${revised?.chosen}`);
+    break;
+  }
+
+  case 'delete': {
+    const d = storage.deleteDecision(resolve(requireId(), 'decision').id);
+    if (!d) fail('decision vanished while deleting');
+    if (values.json) printJson(d);
+    else print(`Deleted: ${d.topic}`);
+    break;
+  }
+
+  case 'export': {
+    const result = exportAdrs(storage.readDecisions(), root, values.dir);
+    if (values.json) {
+      printJson(result);
+      break;
+    }
+    for (const f of result.written) print(`wrote ${f}`);
+    print(
+      `${result.written.length} written, ${result.unchanged} unchanged, ${result.skipped} skipped`,
+    );
+    break;
+  }
+
+  case 'import': {
+    const { decisions, duplicateNumbers } = importAdrs(
+      storage.readDecisions(),
+      storage.getSessionId(),
+      root,
+      values.dir,
+    );
+    storage.importDecisions(decisions);
+    if (values.json) {
+      printJson(decisions);
+      break;
+    }
+    for (const d of decisions) print(`imported ${d.source}: ${d.topic}`);
+    for (const f of duplicateNumbers) {
+      print(`${f} shares its ADR number; supersession naming it not linked`);
+    }
+    print(`${decisions.length} decision(s) imported`);
+    break;
+  }
+
+  case 'dashboard': {
+    const port = Number(values.port ?? DEFAULT_DASHBOARD_PORT);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      fail('--port must be a port number');
+    }
+    const server = createDashboard(storage);
+    server.on('error', (err) => fail(err.message));
+    // Localhost only: the log may hold details that shouldn't leave the machine
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      const actual = typeof address === 'object' ? address?.port : port;
+      print(`decision-log dashboard: http://127.0.0.1:${actual}/`);
+    });
+    break;
+  }
+
+  case 'doctor': {
+    const report = storage.checkStore();
+    if (values.json) printJson(report);
+    else {
+      print(
+        `home store: ${report.projectDir} (schema version ${report.schemaVersion})`,
+      );
+      if (report.repoStore) {
+        print(
+          `repo store: ${report.repoStore} (schema version ${report.repoSchemaVersion})`,
+        );
+      }
+      if (report.invalid.length === 0) print('No invalid records.');
+      else {
+        print(
+          `${report.invalid.length} invalid record(s), left out of the log:`,
+        );
+        for (const r of report.invalid)
+          print(`  ${r.file}:${r.line}  ${r.error}`);
+      }
+    }
+    if (report.invalid.length > 0) process.exitCode = 1;
+    break;
+  }
+
+  default:
+    fail(`unknown command: ${command}\n\n${USAGE}`);
+}
@@ -0,0 +1,28 @@
+import * as path from 'node:path';
+
+// Decisions can point at the code they govern: files or directories, kept
+// relative to the repository root with forward slashes so links compare the
+// same on every machine and in every checkout.
+
+/**
+ * `file` as a root-relative link. Relative paths are taken from `cwd`, like
+ * any other path Claude Code passes around; the root itself becomes `.`.
+ */
+export function normalizeLinkPath(
+  root: string,
+  cwd: string,
+  file: string,
+): string {
+  const relative = path.relative(root, path.resolve(cwd, file.trim()));
+  return relative.split(path.sep).join('/') || '.';
+}
+
+/** The linked files or directories that `file` is, or is inside of. */
+export function linkedPaths(
+  files: string[] | undefined,
+  file: string,
+): string[] {
+  return (files ?? []).filter(
+    (f) => f === '.' || f === file || file.startsWith(`${f}/`),
+  );
+}
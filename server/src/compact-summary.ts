@@ -0,0 +1,244 @@
+import { approachFacts, outcomeLabel } from './approaches.js';
+import { type ProblemNode, problemTree, relationNote } from './problem-tree.js';
+import {
+  type Approach,
+  ApproachOutcomeSchema,
+  type Decision,
+  type Problem,
+} from './types.js';
+
+// The PreCompact summary has to fit in a character budget, or it undoes the
+// point of compacting. Open problems are kept first (collapsing their older
+// approaches into counts before dropping anything), then this session's
+// decisions, then resolved problems. Whatever doesn't fit is counted in a
+// closing note that points at get_context. Sub-problems are indented under
+// their parent.
+
+const HEADER =
+  'DECISION LOG (preserved through compaction) — call the decision-log get_context tool to reload full details.';
+const DETAIL_CHARS = 120;
+const FACT_CHARS = 60;
+
+export function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}...` : text;
+}
+
+export interface CompactSummaryInput {
+  problems: Problem[];
+  /**
+   * Problems from every session, for naming parents and blockers that
+   * aren't in `problems`. Defaults to `problems`.
+   */
+  allProblems?: Problem[];
+  sessionDecisions: Decision[];
+  /** Active decisions from other sessions, mentioned only as a count. */
+  otherDecisions: number;
+}
+
+interface Omitted {
+  openProblems: number;
+  approaches: number;
+  decisions: number;
+  resolvedProblems: number;
+}
+
+/**
+ * The `keep` approaches worth showing for an open problem: the most recent
+ * failures first, then the most recent of the rest. Returned in log order.
+ */
+function pickApproaches(approaches: Approach[], keep: number): Approach[] {
+  const newestFirst = [...approaches].reverse();
+  const picked = new Set([
+    ...newestFirst.filter((a) => a.outcome === 'failed').slice(0, keep),
+  ]);
+  for (const a of newestFirst) {
+    if (picked.size >= keep) break;
+    picked.add(a);
+  }
+  return approaches.filter((a) => picked.has(a));
+}
+
+/** `2 failed, 1 succeeded`; failures and successes are always counted. */
+function outcomeCounts(approaches: Approach[]): string {
+  return ApproachOutcomeSchema.options
+    .map((outcome) => ({
+      outcome,
+      n: approaches.filter((a) => a.outcome === outcome).length,
+    }))
+    .filter(
+      ({ outcome, n }) =>
+        n > 0 || outcome === 'failed' || outcome === 'succeeded',
+    )
+    .map(({ outcome, n }) => `${n} ${outcome.replace('_', ' ')}`)
+    .join(', ');
+}
+
+function renderOpen(node: ProblemNode, all: Problem[], keep: number): string[] {
+  const p = node.problem;
+  const shown = pickApproaches(p.approaches, keep);
+  const hidden = p.approaches.filter((a) => !shown.includes(a));
+  const lines = [`[OPEN] ${p.problem}${relationNote(node, all)}`];
+  if (hidden.length > 0) {
+    lines.push(
+      `  - (${hidden.length} other approach(es) collapsed: ${outcomeCounts(hidden)})`,
+    );
+  }
+  for (const a of shown) {
+    lines.push(
+      `  - ${outcomeLabel(a.outcome)}: ${a.approach} — ${truncate(a.details, DETAIL_CHARS)}`,
+    );
+    const facts = approachFacts(a, (text) => truncate(text, FACT_CHARS));
+    if (facts) lines.push(`    ${facts}`);
+  }
+  const indent = '  '.repeat(node.depth);
+  return [...lines.map((l) => indent + l), ''];
+}
+
+function renderResolved(p: Problem): string {
+  const failCount = p.approaches.filter((a) => a.outcome === 'failed').length;
+  const suffix =
+    failCount > 0
+      ? ` (${failCount} failed approach${failCount > 1 ? 'es' : ''})`
+      : '';
+  return `- ${p.problem} → ${p.resolution || 'resolved'}${suffix}`;
+}
+
+function renderDecision(d: Decision): string {
+  const flag = d.status === 'active' ? '' : ` [${d.status.toUpperCase()}]`;
+  return `- ${d.topic}: ${d.chosen} — ${d.rationale}${flag}`;
+}
+
+function omissionNote(o: Omitted): string | null {
+  const parts = [
+    [o.openProblems, 'open problem(s)'],
+    [o.approaches, 'approach detail(s)'],
+    [o.decisions, 'decision(s)'],
+    [o.resolvedProblems, 'resolved problem(s)'],
+  ]
+    .filter(([n]) => (n as number) > 0)
+    .map(([n, what]) => `${n} ${what}`);
+  if (parts.length === 0) return null;
+  return `OMITTED to fit the summary budget: ${parts.join(', ')}. Call the decision-log get_context tool for the full record.`;
+}
+
+function assemble(
+  open: string[][],
+  resolved: string[],
+  decisions: string[],
+  otherDecisions: number,
+  omitted: Omitted,
+): string {
+  const lines: string[] = [HEADER, ''];
+  if (open.length > 0) lines.push('OPEN PROBLEMS:', ...open.flat());
+  if (resolved.length > 0) lines.push('RESOLVED PROBLEMS:', ...resolved, '');
+  if (decisions.length > 0) {
+    lines.push('DECISIONS THIS SESSION:', ...decisions, '');
+  }
+  if (otherDecisions > 0) {
+    lines.push(
+      `${otherDecisions} additional project decision(s) from prior sessions. Search them before making overlapping decisions.`,
+    );
+  }
+  const note = omissionNote(omitted);
+  if (note) lines.push('', note);
+  return lines.join('\n');
+}
+
+/**
+ * Render the session summary within `maxChars`, or null when there is
+ * nothing to say.
+ */
+export function compactSummary(
+  input: CompactSummaryInput,
+  maxChars: number,
+): string | null {
+  const all = input.allProblems ?? input.problems;
+  const openNodes = problemTree(
+    input.problems.filter((p) => p.status !== 'resolved'),
+  );
+  const open = openNodes.map((n) => n.problem);
+  const resolved = input.problems.filter((p) => p.status === 'resolved');
+  const { sessionDecisions, otherDecisions } = input;
+  if (
+    open.length === 0 &&
+    resolved.length === 0 &&
+    sessionDecisions.length === 0 &&
+    otherDecisions === 0
+  ) {
+    return null;
+  }
+
+  const omitted: Omitted = {
+    openProblems: 0,
+    approaches: 0,
+    decisions: sessionDecisions.length,
+    resolvedProblems: resolved.length,
+  };
+  const fits = (
+    openLines: string[][],
+    resolvedLines: string[],
+    decisionLines: string[],
+  ) =>
+    assemble(openLines, resolvedLines, decisionLines, otherDecisions, omitted)
+      .length <= maxChars;
+
+  // Open problems: show as many approaches per problem as the budget allows
+  const hiddenAt = (p: Problem, keep: number) =>
+    p.approaches.length - Math.min(p.approaches.length, keep);
+  let keep = Math.max(0, ...open.map((p) => p.approaches.length));
+  let openLines: string[][];
+  for (;;) {
+    const k = keep;
+    openLines = openNodes.map((n) => renderOpen(n, all, k));
+    omitted.approaches = open.reduce((n, p) => n + hiddenAt(p, k), 0);
+    if (keep === 0 || fits(openLines, [], [])) break;
+    keep--;
+  }
+  // Still too long: drop open problems from the oldest tree, sub-problems
+  // before their parent so none is left without it
+  const rendered = openLines;
+  const shown = openNodes.map((_, i) => i);
+  while (shown.length > 0 && !fits(openLines, [], [])) {
+    const nextTree = shown.findIndex(
+      (i, at) => at > 0 && openNodes[i].depth === 0,
+    );
+    const [i] = shown.splice(
+      (nextTree === -1 ? shown.length : nextTree) - 1,
+      1,
+    );
+    omitted.approaches -= hiddenAt(open[i], keep);
+    omitted.openProblems++;
+    openLines = shown.map((j) => rendered[j]);
+  }
+
+  // Lower tiers only get space once everything above them fits
+  const decisionLines: string[] = [];
+  for (const d of omitted.openProblems > 0 ? [] : sessionDecisions) {
+    const candidate = [...decisionLines, renderDecision(d)];
+    omitted.decisions = sessionDecisions.length - candidate.length;
+    if (!fits(openLines, [], candidate)) {
+      omitted.decisions++;
+      break;
+    }
+    decisionLines.push(renderDecision(d));
+  }
+
+  const resolvedLines: string[] = [];
+  for (const p of omitted.decisions > 0 ? [] : resolved) {
+    const candidate = [...resolvedLines, renderResolved(p)];
+    omitted.resolvedProblems = resolved.length - candidate.length;
+    if (!fits(openLines, candidate, decisionLines)) {
+      omitted.resolvedProblems++;
+      break;
+    }
+    resolvedLines.push(renderResolved(p));
+  }
+
+  return assemble(
+    openLines,
+    resolvedLines,
+    decisionLines,
+    otherDecisions,
+    omitted,
+  );
+}
@@ -0,0 +1,67 @@
+// Tunables read from the environment. Claude Code passes its own environment
+// (including the `env` block of settings.json) to hooks and MCP servers, so
+// that is where users set these.
+
+export interface Config {
+  /** Maximum characters of the decision digest injected at SessionStart. */
+  sessionStartChars: number;
+  /** Maximum characters of the session summary injected at PreCompact. */
+  preCompactChars: number;
+  /**
+   * Where decisions are kept: the home directory, the repository's
+   * `.decision-log/`, or the repository's if it already has one.
+   */
+  store: 'auto' | 'home' | 'repo';
+  /**
+   * Record a failed Bash command as an approach on the session's open
+   * problem, from the PostToolUseFailure hook.
+   */
+  draftApproaches: boolean;
+}
+
+const DEFAULTS: Config = {
+  sessionStartChars: 2000,
+  preCompactChars: 4000,
+  store: 'auto',
+  draftApproaches: false,
+};
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+function flag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === '') return fallback;
+  return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+function oneOf<T extends string>(
+  value: string | undefined,
+  allowed: readonly T[],
+  fallback: T,
+): T {
+  return allowed.find((a) => a === value) ?? fallback;
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  return {
+    sessionStartChars: positiveInt(
+      env.DECISION_LOG_SESSION_START_CHARS,
+      DEFAULTS.sessionStartChars,
+    ),
+    preCompactChars: positiveInt(
+      env.DECISION_LOG_PRECOMPACT_CHARS,
+      DEFAULTS.preCompactChars,
+    ),
+    store: oneOf(
+      env.DECISION_LOG_STORE,
+      ['auto', 'home', 'repo'],
+      DEFAULTS.store,
+    ),
+    draftApproaches: flag(
+      env.DECISION_LOG_DRAFT_APPROACHES,
+      DEFAULTS.draftApproaches,
+    ),
+  };
+}
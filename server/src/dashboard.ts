@@ -0,0 +1,336 @@
+import * as http from 'node:http';
+import { approachFacts, outcomeLabel } from './approaches.js';
+import type { Storage } from './storage.js';
+import type { Approach, ApproachOutcome, Decision, Problem } from './types.js';
+
+// A read-only HTML view of the log for people rather than Claude. Pages are
+// rendered on the server with inline styles and no scripts, so nothing is
+// loaded from outside the machine.
+
+export const DEFAULT_DASHBOARD_PORT = 4317;
+
+const OUTCOME_MARKS: Record<ApproachOutcome, string> = {
+  failed: '✗',
+  succeeded: '✓',
+  partial: '◐',
+  inconclusive: '?',
+  in_progress: '…',
+};
+
+const STYLE = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; }
+header { background: #24292f; padding: 8px 24px; }
+header a { color: #fff; margin-right: 16px; text-decoration: none; }
+main { display: flex; gap: 32px; padding: 16px 24px; }
+aside { min-width: 180px; }
+section { flex: 1; max-width: 960px; }
+a { color: #0969da; }
+ul.plain { list-style: none; padding: 0; }
+.muted { color: #656d76; }
+.tag { background: #ddf4ff; border-radius: 10px; padding: 0 8px; margin-right: 4px; font-size: 12px; }
+.status { font-size: 12px; font-weight: 600; text-transform: uppercase; }
+.status.superseded, .status.deprecated { color: #9a6700; }
+.chosen { font-weight: 600; }
+.failed { color: #cf222e; }
+.succeeded { color: #1a7f37; }
+.partial, .inconclusive, .in_progress { color: #9a6700; }
+.timeline { border-left: 2px solid #d0d7de; padding-left: 16px; }
+.timeline li { margin-bottom: 8px; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} — decision-log</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header><a href="/">Decisions</a><a href="/sessions">Sessions</a></header>
+<main>${body}</main>
+</body>
+</html>
+`;
+}
+
+function tags(d: Decision): string {
+  return d.tags
+    .map(
+      (t) =>
+        `<a class="tag" href="/?tag=${encodeURIComponent(t)}">${escapeHtml(t)}</a>`,
+    )
+    .join('');
+}
+
+function statusBadge(d: Decision): string {
+  return d.status === 'active'
+    ? ''
+    : ` <span class="status ${d.status}">${d.status}</span>`;
+}
+
+function decisionLink(d: Decision | undefined, fallbackId: string): string {
+  return d
+    ? `<a href="/decisions/${encodeURIComponent(d.id)}">${escapeHtml(d.topic)}</a>`
+    : `<span class="muted">${escapeHtml(fallbackId)} (not in the log)</span>`;
+}
+
+function decisionList(storage: Storage, params: URLSearchParams): string {
+  const tag = params.get('tag') ?? undefined;
+  const query = params.get('q') ?? undefined;
+  const all = params.get('all') === '1';
+  const { decisions } = storage.searchDecisions({
+    query,
+    tags: tag ? [tag] : undefined,
+    includeInactive: all,
+    sort: query ? 'relevance' : 'newest',
+  });
+
+  // Facets count every decision in view, before the tag filter
+  const facetBase = storage.searchDecisions({ query, includeInactive: all });
+  const counts = new Map<string, number>();
+  for (const d of facetBase.decisions) {
+    for (const t of d.tags) counts.set(t, (counts.get(t) ?? 0) + 1);
+  }
+  const facets = [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([t, n]) => {
+      const href = `/?tag=${encodeURIComponent(t)}${all ? '&all=1' : ''}`;
+      const label =
+        t === tag ? `<strong>${escapeHtml(t)}</strong>` : escapeHtml(t);
+      return `<li><a href="${href}">${label}</a> <span class="muted">${n}</span></li>`;
+    })
+    .join('');
+
+  const items = decisions
+    .map(
+      (d) => `<li>
+<span class="muted">${d.timestamp.slice(0, 10)}</span>
+<a href="/decisions/${encodeURIComponent(d.id)}">${escapeHtml(d.topic)}</a> → ${escapeHtml(d.chosen)}${statusBadge(d)}
+${tags(d)}
+</li>`,
+    )
+    .join('\n');
+
+  const toggle = all
+    ? `<a href="/${tag ? `?tag=${encodeURIComponent(tag)}` : ''}">Hide superseded and deprecated</a>`
+    : `<a href="/?all=1${tag ? `&tag=${encodeURIComponent(tag)}` : ''}">Show superseded and deprecated</a>`;
+
+  return page(
+    'Decisions',
+    `<aside>
+<h3>Tags</h3>
+<ul class="plain"><li><a href="/${all ? '?all=1' : ''}">${tag ? 'All' : '<strong>All</strong>'}</a></li>${facets}</ul>
+</aside>
+<section>
+<h1>Decisions${tag ? ` tagged ${escapeHtml(tag)}` : ''}</h1>
+<form action="/"><input name="q" value="${escapeHtml(query ?? '')}" placeholder="Search decisions"></form>
+<p>${toggle}</p>
+${items ? `<ul class="plain">${items}</ul>` : '<p class="muted">No decisions found.</p>'}
+</section>`,
+  );
+}
+
+function decisionDetail(storage: Storage, id: string): string | null {
+  const all = storage.readDecisions();
+  const d = all.find((x) => x.id === id);
+  if (!d) return null;
+  const byId = (other: string) => all.find((x) => x.id === other);
+
+  const options = d.options
+    .map(
+      (o) =>
+        `<li${o.name === d.chosen ? ' class="chosen"' : ''}>${escapeHtml(o.name)}${o.description ? ` — ${escapeHtml(o.description)}` : ''}${o.name === d.chosen ? ' ✓' : ''}</li>`,
+    )
+    .join('');
+  const links: string[] = [];
+  if (d.supersedes) {
+    links.push(
+      `<p>Supersedes ${decisionLink(byId(d.supersedes), d.supersedes)}</p>`,
+    );
+  }
+  if (d.superseded_by) {
+    links.push(
+      `<p>Superseded by ${decisionLink(byId(d.superseded_by), d.superseded_by)}</p>`,
+    );
+  }
+  if (d.deprecated_reason) {
+    links.push(`<p>Deprecated: ${escapeHtml(d.deprecated_reason)}</p>`);
+  }
+  const code = [
+    ...(d.files ?? []).map((f) => `<li><code>${escapeHtml(f)}</code></li>`),
+    ...(d.symbols ?? []).map((s) => `<li><code>${escapeHtml(s)}</code></li>`),
+    ...(d.commit
+      ? [`<li>commit <code>${escapeHtml(d.commit)}</code></li>`]
+      : []),
+  ].join('');
+
+  return page(
+    d.topic,
+    `<section>
+<h1>${escapeHtml(d.topic)}${statusBadge(d)}</h1>
+<p class="muted">${d.short_id ? `${escapeHtml(d.short_id)} · ` : ''}${d.timestamp.slice(0, 16).replace('T', ' ')} · session <a href="/sessions/${encodeURIComponent(d.session_id)}">${escapeHtml(d.session_id)}</a>${d.revised_at ? ` · revised ${d.revised_at.slice(0, 10)}` : ''}</p>
+<p>${tags(d)}</p>
+${links.join('\n')}
+<h2>Chosen</h2>
+<p class="chosen">${escapeHtml(d.chosen)}</p>
+<h2>Rationale</h2>
+<p>${escapeHtml(d.rationale)}</p>
+${options ? `<h2>Options considered</h2><ul>${options}</ul>` : ''}
+${code ? `<h2>Code</h2><ul>${code}</ul>` : ''}
+</section>`,
+  );
+}
+
+function sessionList(storage: Storage): string {
+  const { decisions, problems } = storage.snapshot();
+  const items = storage
+    .listSessions()
+    .reverse()
+    .map((s) => {
+      const nd = decisions.filter((d) => d.session_id === s.session_id).length;
+      const np = problems.filter((p) => p.session_id === s.session_id).length;
+      return `<li><span class="muted">${s.started_at.slice(0, 16).replace('T', ' ')}</span>
+<a href="/sessions/${encodeURIComponent(s.session_id)}">${escapeHtml(s.session_id)}</a>
+<span class="muted">${nd} decision(s), ${np} problem(s)</span></li>`;
+    })
+    .join('\n');
+  return page(
+    'Sessions',
+    `<section><h1>Sessions</h1>${items ? `<ul class="plain">${items}</ul>` : '<p class="muted">No sessions recorded.</p>'}</section>`,
+  );
+}
+
+type TimelineEntry =
+  | { at: string; kind: 'decision'; decision: Decision }
+  | { at: string; kind: 'opened' | 'closed'; problem: Problem }
+  | { at: string; kind: 'approach'; problem: Problem; approach: Approach };
+
+function timelineItem(e: TimelineEntry): string {
+  const time = `<span class="muted">${e.at.slice(11, 16)}</span>`;
+  switch (e.kind) {
+    case 'decision':
+      return `${time} Decided ${decisionLink(e.decision, e.decision.id)} → ${escapeHtml(e.decision.chosen)}`;
+    case 'opened':
+      return `${time} <strong>Problem opened:</strong> ${escapeHtml(e.problem.problem)}`;
+    case 'approach': {
+      const a = e.approach;
+      const facts = approachFacts(a);
+      const more = facts
+        ? `<br><span class="muted">${escapeHtml(facts)}</span>`
+        : '';
+      return `${time} <span class="${a.outcome}">${OUTCOME_MARKS[a.outcome]} ${outcomeLabel(a.outcome).toLowerCase()}</span> ${escapeHtml(a.approach)} <span class="muted">— ${escapeHtml(a.details)}</span>${more}`;
+    }
+    case 'closed':
+      return `${time} <strong>Problem resolved:</strong> ${escapeHtml(e.problem.problem)} → ${escapeHtml(e.problem.resolution ?? '')}`;
+  }
+}
+
+function sessionTimeline(storage: Storage, id: string): string | null {
+  const meta = storage.listSessions().find((s) => s.session_id === id);
+  const { decisions, problems } = storage.snapshot();
+  const ours = problems.filter((p) => p.session_id === id);
+  const decided = decisions.filter((d) => d.session_id === id);
+  if (!meta && ours.length === 0 && decided.length === 0) return null;
+
+  const entries: TimelineEntry[] = [
+    ...decided.map(
+      (d): TimelineEntry => ({
+        at: d.timestamp,
+        kind: 'decision',
+        decision: d,
+      }),
+    ),
+  ];
+  for (const p of ours) {
+    entries.push({ at: p.created_at, kind: 'opened', problem: p });
+    for (const a of p.approaches) {
+      entries.push({
+        at: a.timestamp,
+        kind: 'approach',
+        problem: p,
+        approach: a,
+      });
+    }
+    if (p.status === 'resolved') {
+      // Problems closed before resolved_at was recorded fall back to their
+      // last approach
+      const at =
+        p.resolved_at ?? p.approaches.at(-1)?.timestamp ?? p.created_at;
+      entries.push({ at, kind: 'closed', problem: p });
+    }
+  }
+  entries.sort((a, b) => a.at.localeCompare(b.at));
+
+  let day = '';
+  const items: string[] = [];
+  for (const e of entries) {
+    if (e.at.slice(0, 10) !== day) {
+      day = e.at.slice(0, 10);
+      items.push(`<li><h3>${day}</h3></li>`);
+    }
+    items.push(`<li>${timelineItem(e)}</li>`);
+  }
+
+  const open = ours.filter((p) => p.status === 'open').length;
+  return page(
+    `Session ${id}`,
+    `<section>
+<h1>Session ${escapeHtml(id)}</h1>
+<p class="muted">${meta ? `Started ${meta.started_at.slice(0, 16).replace('T', ' ')}${meta.resumed_at ? `, resumed ${meta.resumed_at.slice(0, 16).replace('T', ' ')}` : ''} · ${escapeHtml(meta.cwd)} · ` : ''}${decided.length} decision(s), ${ours.length} problem(s), ${open} open</p>
+${items.length > 0 ? `<ul class="plain timeline">${items.join('\n')}</ul>` : '<p class="muted">Nothing recorded.</p>'}
+</section>`,
+  );
+}
+
+function route(storage: Storage, url: URL): string | null {
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (parts.length === 0) return decisionList(storage, url.searchParams);
+  if (parts[0] === 'decisions' && parts.length === 2) {
+    return decisionDetail(storage, parts[1]);
+  }
+  if (parts[0] === 'sessions' && parts.length === 1)
+    return sessionList(storage);
+  if (parts[0] === 'sessions' && parts.length === 2) {
+    return sessionTimeline(storage, parts[1]);
+  }
+  return null;
+}
+
+/** An HTTP server rendering `storage`. Call `listen` on 127.0.0.1. */
+export function createDashboard(storage: Storage): http.Server {
+  return http.createServer((req, res) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+      return;
+    }
+    let html: string | null;
+    try {
+      html = route(storage, new URL(req.url ?? '/', 'http://localhost'));
+    } catch (err) {
+      res
+        .writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' })
+        .end(`decision-log: ${(err as Error).message}\n`);
+      return;
+    }
+    const status = html === null ? 404 : 200;
+    res.writeHead(status, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Security-Policy':
+        "default-src 'none'; style-src 'unsafe-inline'",
+    });
+    res.end(
+      req.method === 'HEAD'
+        ? undefined
+        : (html ?? page('Not found', '<section><h1>Not found</h1></section>')),
+    );
+  });
+}
@@ -0,0 +1,99 @@
+import { dice, keywords, tokenize } from './search.js';
+import type { Approach, Problem } from './types.js';
+
+// Catch an approach that already failed, on the same problem or on a similar
+// one from an earlier session. Approaches are compared by their keywords
+// (Dice coefficient) and by the exact commands they ran; problems count as
+// similar when their descriptions overlap or they hit the same error.
+
+const GENERIC = new Set(
+  [
+    'again',
+    'approach',
+    'change',
+    'fix',
+    'instead',
+    'try',
+    'update',
+    'use',
+  ].flatMap(tokenize),
+);
+
+const COMMAND_BONUS = 0.4;
+const APPROACH_THRESHOLD = 0.5;
+const PROBLEM_THRESHOLD = 0.4;
+
+export type ProposedApproach = Pick<Approach, 'approach' | 'commands'>;
+
+export interface DeadEnd {
+  problem: Problem;
+  approach: Approach;
+  /** Failed on the problem being worked on, rather than a similar one. */
+  sameProblem: boolean;
+  score: number;
+}
+
+function meaningfulWords(text: string): Set<string> {
+  return new Set([...keywords(text)].filter((w) => !GENERIC.has(w)));
+}
+
+function command(c: string): string {
+  return c.trim().replace(/\s+/g, ' ');
+}
+
+function approachScore(proposed: ProposedApproach, prior: Approach): number {
+  const commands = new Set((proposed.commands ?? []).map(command));
+  const sameCommand = (prior.commands ?? []).some((c) =>
+    commands.has(command(c)),
+  );
+  return Math.min(
+    1,
+    dice(meaningfulWords(proposed.approach), meaningfulWords(prior.approach)) +
+      (sameCommand ? COMMAND_BONUS : 0),
+  );
+}
+
+function errorSignatures(p: Problem): Set<string> {
+  return new Set(
+    p.approaches.flatMap((a) =>
+      a.error_signature ? [a.error_signature.trim().toLowerCase()] : [],
+    ),
+  );
+}
+
+function similarProblems(a: Problem, b: Problem): boolean {
+  const errors = errorSignatures(a);
+  if ([...errorSignatures(b)].some((e) => errors.has(e))) return true;
+  return (
+    dice(meaningfulWords(a.problem), meaningfulWords(b.problem)) >=
+    PROBLEM_THRESHOLD
+  );
+}
+
+/**
+ * Failed approaches that `proposed` likely repeats: those on `problem`
+ * itself first, then those on similar problems, best match first.
+ */
+export function findDeadEnds(
+  problems: Problem[],
+  problem: Problem,
+  proposed: ProposedApproach,
+): DeadEnd[] {
+  return problems
+    .filter((p) => p.id === problem.id || similarProblems(problem, p))
+    .flatMap((p) =>
+      p.approaches
+        .filter((a) => a.outcome === 'failed')
+        .map((a) => ({
+          problem: p,
+          approach: a,
+          sameProblem: p.id === problem.id,
+          score: approachScore(proposed, a),
+        })),
+    )
+    .filter((d) => d.score >= APPROACH_THRESHOLD)
+    .sort(
+      (a, b) =>
+        Number(b.sameProblem) - Number(a.sameProblem) || b.score - a.score,
+    );
+}
@@ -0,0 +1,96 @@
+import type { Decision } from './types.js';
+
+// The SessionStart digest: a compact, budgeted view of the active decisions
+// most worth knowing about at the start of a session. Output depends only on
+// the decisions and the budget, never on the clock.
+
+const RATIONALE_CHARS = 100;
+const UNTAGGED = 'untagged';
+
+function oneLine(text: string, max: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+function byRecency(a: Decision, b: Decision): number {
+  return b.timestamp.localeCompare(a.timestamp) || a.id.localeCompare(b.id);
+}
+
+function byReferences(a: Decision, b: Decision): number {
+  return (b.reference_count ?? 0) - (a.reference_count ?? 0) || byRecency(a, b);
+}
+
+/**
+ * Alternate between the most recent and the most referenced decisions so
+ * both kinds get a share of the budget.
+ */
+function priorityOrder(decisions: Decision[]): Decision[] {
+  const recent = [...decisions].sort(byRecency);
+  const referenced = [...decisions].sort(byReferences);
+  const order: Decision[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < decisions.length; i++) {
+    for (const d of [recent[i], referenced[i]]) {
+      if (seen.has(d.id)) continue;
+      seen.add(d.id);
+      order.push(d);
+    }
+  }
+  return order;
+}
+
+function render(selected: Decision[]): string[] {
+  const groups = new Map<string, Decision[]>();
+  for (const d of selected) {
+    const tag = d.tags[0] ?? UNTAGGED;
+    groups.set(tag, [...(groups.get(tag) ?? []), d]);
+  }
+  const sorted = [...groups.entries()].sort(([a], [b]) =>
+    a === UNTAGGED ? 1 : b === UNTAGGED ? -1 : a.localeCompare(b),
+  );
+
+  const lines: string[] = [];
+  for (const [tag, group] of sorted) {
+    lines.push(`[${tag}]`);
+    for (const d of group.sort(byRecency)) {
+      lines.push(
+        `- ${d.topic}: ${d.chosen} — ${oneLine(d.rationale, RATIONALE_CHARS)}`,
+      );
+    }
+  }
+  return lines;
+}
+
+function omittedNote(count: number): string[] {
+  return count > 0
+    ? [`(${count} more active decision(s) not shown — use search_decisions)`]
+    : [];
+}
+
+/**
+ * Render as many active decisions as fit in `maxChars`, grouped by their
+ * first tag, plus a note on how many were left out. Each choice leaves room
+ * for the note, so the whole digest stays within the budget.
+ */
+export function decisionDigest(
+  decisions: Decision[],
+  maxChars: number,
+): string[] {
+  const active = decisions.filter((d) => d.status === 'active');
+  const selected: Decision[] = [];
+  let lines: string[] = [];
+  for (const d of priorityOrder(active)) {
+    const attempt = [
+      ...render([...selected, d]),
+      ...omittedNote(active.length - selected.length - 1),
+    ];
+    if (attempt.join('\n').length > maxChars) continue;
+    selected.push(d);
+    lines = attempt;
+  }
+  if (selected.length === 0) {
+    const note = omittedNote(active.length);
+    if (note.join('\n').length <= maxChars) lines = note;
+  }
+  return lines;
+}
@@ -0,0 +1,72 @@
+import { dice, keywords, tokenize } from './search.js';
+import type { Decision } from './types.js';
+
+// Catch a decision that is being made a second time. Topics are compared by
+// their keywords (Dice coefficient), ignoring words every decision topic
+// tends to have; sharing a tag makes a match more likely. Only a topic that
+// alone is nearly the same question is treated as a repeat; anything else
+// similar is merely pointed out.
+
+const GENERIC = new Set(
+  [
+    'approach',
+    'choice',
+    'choose',
+    'decision',
+    'library',
+    'option',
+    'pattern',
+    'strategy',
+    'tool',
+    'use',
+    'which',
+    'how',
+  ].flatMap(tokenize),
+);
+
+const TAG_BONUS = 0.2;
+const THRESHOLD = 0.6;
+const SAME_QUESTION = 0.85;
+
+export interface SimilarDecision {
+  decision: Decision;
+  /** Same choice again, or a different choice on the same question. */
+  kind: 'duplicate' | 'conflict';
+  score: number;
+  /** The topics alone, without tags, ask nearly the same question. */
+  sameQuestion: boolean;
+}
+
+function topicWords(topic: string): Set<string> {
+  return new Set([...keywords(topic)].filter((w) => !GENERIC.has(w)));
+}
+
+function sameChoice(a: string, b: string): boolean {
+  return tokenize(a).join(' ') === tokenize(b).join(' ');
+}
+
+/** Active decisions that `candidate` likely repeats or contradicts, best first. */
+export function findSimilarDecisions(
+  decisions: Decision[],
+  candidate: Pick<Decision, 'topic' | 'chosen' | 'tags'>,
+): SimilarDecision[] {
+  const words = topicWords(candidate.topic);
+  const tags = new Set(candidate.tags.map((t) => t.toLowerCase()));
+  return decisions
+    .filter((d) => d.status === 'active')
+    .map((d) => {
+      const sharesTag = d.tags.some((t) => tags.has(t.toLowerCase()));
+      const topicScore = dice(words, topicWords(d.topic));
+      const score = Math.min(1, topicScore + (sharesTag ? TAG_BONUS : 0));
+      return {
+        decision: d,
+        kind: sameChoice(d.chosen, candidate.chosen)
+          ? ('duplicate' as const)
+          : ('conflict' as const),
+        score,
+        sameQuestion: topicScore >= SAME_QUESTION,
+      };
+    })
+    .filter((s) => s.score >= THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+}
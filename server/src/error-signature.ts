@@ -0,0 +1,93 @@
+import type { Approach, Problem } from './types.js';
+
+// Recognize an error that was seen before. The first line of command output
+// that looks like an error is reduced to a signature — paths, line numbers,
+// UUIDs and hex ids taken out — so the same failure matches across checkouts,
+// runs and machines. Signatures are looked up in the approaches recorded for
+// past problems, their details and their resolutions.
+
+// `TypeError: …`, `ERR_MODULE_NOT_FOUND`, `ECONNREFUSED`
+const NAMED_ERROR =
+  /\b(?:[A-Z]\w*(?:Error|Exception)|ERR_[A-Z0-9_]+|E(?:ACCES|ADDRINUSE|CONNREFUSED|CONNRESET|EXIST|NOENT|NOTFOUND|PERM|TIMEDOUT))\b/;
+// `error: …`, `error[E0382]: …`, `fatal: …`, `panic: …`, tsc's `error TS2322:`
+const PREFIXED_ERROR =
+  /^\s*(?:error|fatal|panic)\b\s*(?:\[[\w-]+\])?:|\berror TS\d+:/i;
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matches ANSI escapes
+const ANSI = /\u001b\[[0-9;]*m/g;
+
+const MAX_SIGNATURE = 200;
+const MIN_CONTAINED = 16;
+
+/** The line of `output` that states the error, or null if there is none. */
+export function errorLine(output: string): string | null {
+  const lines = output.replace(ANSI, '').split('\n');
+  const line = lines.find((l) => NAMED_ERROR.test(l) || PREFIXED_ERROR.test(l));
+  return line?.trim() || null;
+}
+
+/** `line` with whatever differs between runs of the same error taken out. */
+export function errorSignature(line: string): string {
+  return line
+    .replace(ANSI, '')
+    .replace(
+      /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+      '<id>',
+    )
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{7,}\b/gi, '<hex>')
+    .replace(
+      /(?:file:\/\/)?(?:[A-Za-z]:)?(?:[\w.@~-]*[\\/])+[\w.@-]+/g,
+      '<path>',
+    )
+    .replace(/(?::\d+)+\b/g, '')
+    .replace(/\bline \d+/gi, 'line')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_SIGNATURE);
+}
+
+export interface SeenError {
+  problem: Problem;
+  /** The approach that ran into the error, if it was an approach. */
+  approach?: Approach;
+}
+
+function mentions(text: string | undefined, signature: string): boolean {
+  return (
+    !!text &&
+    signature.length >= MIN_CONTAINED &&
+    errorSignature(text).includes(signature)
+  );
+}
+
+/**
+ * Problems where the error with `signature` came up before, resolved ones
+ * first, then newest first.
+ */
+export function findSeenErrors(
+  problems: Problem[],
+  signature: string,
+): SeenError[] {
+  const seen: SeenError[] = [];
+  for (const problem of problems) {
+    const approach = problem.approaches.find(
+      (a) =>
+        (a.error_signature &&
+          errorSignature(a.error_signature) === signature) ||
+        mentions(a.details, signature),
+    );
+    if (
+      approach ||
+      mentions(problem.problem, signature) ||
+      mentions(problem.resolution, signature)
+    ) {
+      seen.push({ problem, ...(approach && { approach }) });
+    }
+  }
+  return seen.sort(
+    (a, b) =>
+      Number(b.problem.status === 'resolved') -
+        Number(a.problem.status === 'resolved') ||
+      b.problem.created_at.localeCompare(a.problem.created_at),
+  );
+}
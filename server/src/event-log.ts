@@ -0,0 +1,377 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { readJsonFile } from './file-lock.js';
+import { formatShortId, type ShortIdKind, shortIdNumber } from './short-id.js';
+import {
+  type Decision,
+  type LogEvent,
+  LogEventSchema,
+  LoggedDecisionSchema,
+  type Problem,
+  ProblemSchema,
+  schemaError,
+} from './types.js';
+
+// All project state is an append-only stream of events in
+// `<projectDir>/events.jsonl`. Decisions and problems are views replayed from
+// it; nothing is ever rewritten in place.
+
+export interface ProjectState {
+  decisions: Decision[];
+  problems: Problem[];
+  /** Highest short ID number handed out so far, including deleted ones. */
+  lastShortId: { D: number; P: number };
+  /**
+   * Short IDs given on replay to decisions that have none written down, by
+   * decision ID. Writers record them so they keep their numbers.
+   */
+  unrecordedShortIds: Record<string, string>;
+}
+
+export function eventsPath(projectDir: string): string {
+  return path.join(projectDir, 'events.jsonl');
+}
+
+/** A stored record that was left out because it doesn't fit its schema. */
+export interface InvalidRecord {
+  file: string;
+  /** 1-based line in a JSONL file, or index in a JSON array. */
+  line: number;
+  error: string;
+}
+
+function reportInvalid(invalid: InvalidRecord[]): void {
+  for (const r of invalid) {
+    process.stderr.write(
+      `decision-log: skipping invalid record at ${r.file}:${r.line} (${r.error})\n`,
+    );
+  }
+}
+
+/**
+ * Parse and validate a JSONL event file. Lines that don't parse — typically
+ * a torn final line from a crash mid-append — or don't match the event
+ * schema come back as `invalid`.
+ */
+export function parseEventFile(file: string): {
+  events: LogEvent[];
+  invalid: InvalidRecord[];
+} {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return { events: [], invalid: [] };
+  }
+  const events: LogEvent[] = [];
+  const invalid: InvalidRecord[] = [];
+  const lines = raw.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      invalid.push({ file, line: i + 1, error: 'not valid JSON' });
+      continue;
+    }
+    const error = schemaError(LogEventSchema, event);
+    if (error) invalid.push({ file, line: i + 1, error });
+    else events.push(event as LogEvent);
+  }
+  return { events, invalid };
+}
+
+/** The valid events in a JSONL file; invalid lines are reported and skipped. */
+export function readEventFile(file: string): LogEvent[] {
+  const { events, invalid } = parseEventFile(file);
+  reportInvalid(invalid);
+  return events;
+}
+
+/** Append events to a JSONL file. Callers hold the file's lock. */
+export function appendEventLines(file: string, events: LogEvent[]): void {
+  let prefix = '';
+  try {
+    const fd = fs.openSync(file, 'r');
+    try {
+      const { size } = fs.fstatSync(fd);
+      if (size > 0) {
+        const last = Buffer.alloc(1);
+        fs.readSync(fd, last, 0, 1, size - 1);
+        // Don't glue the new event onto a torn line
+        if (last.toString() !== '\n') prefix = '\n';
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    // new file
+  }
+  const body = events.map((e) => JSON.stringify(e)).join('\n');
+  fs.appendFileSync(file, `${prefix}${body}\n`);
+}
+
+// --- Legacy JSON files (pre-event-log) ---
+
+interface LegacySource {
+  file: string;
+  events: LogEvent[];
+  invalid: InvalidRecord[];
+}
+
+const LegacyProblemSchema = ProblemSchema.partial({ approaches: true });
+
+/** The records of a legacy JSON array file that match `schema`. */
+function readLegacyRecords<T>(
+  file: string,
+  schema: z.ZodType<T>,
+): { records: T[]; invalid: InvalidRecord[] } {
+  const records: T[] = [];
+  const invalid: InvalidRecord[] = [];
+  readJsonFile<unknown[]>(file, [], z.array(z.unknown())).forEach((r, i) => {
+    const error = schemaError(schema, r);
+    if (error) invalid.push({ file, line: i, error });
+    else records.push(r as T);
+  });
+  return { records, invalid };
+}
+
+function legacyProblemEvents(
+  sessionId: string,
+  problems: z.infer<typeof LegacyProblemSchema>[],
+) {
+  const events: LogEvent[] = [];
+  for (const p of problems) {
+    const sid = p.session_id || sessionId;
+    const { approaches = [], status, resolution, resumed_from, ...opened } = p;
+    events.push({
+      type: 'problem_opened',
+      at: p.created_at,
+      session_id: sid,
+      problem: { ...opened, session_id: sid },
+    });
+    for (const a of approaches) {
+      events.push({
+        type: 'approach_logged',
+        at: a.timestamp,
+        session_id: sid,
+        problem_id: p.id,
+        approach: a,
+      });
+    }
+    if (status === 'resolved') {
+      events.push({
+        type: 'problem_closed',
+        at: approaches.at(-1)?.timestamp ?? p.created_at,
+        session_id: sid,
+        problem_id: p.id,
+        resolution: resolution ?? '',
+      });
+    }
+  }
+  return events;
+}
+
+function legacySources(projectDir: string): LegacySource[] {
+  const sources: LegacySource[] = [];
+
+  const decisionsFile = path.join(projectDir, 'decisions.json');
+  if (fs.existsSync(decisionsFile)) {
+    const { records, invalid } = readLegacyRecords(
+      decisionsFile,
+      LoggedDecisionSchema,
+    );
+    sources.push({
+      file: decisionsFile,
+      events: records.map((d) => ({
+        type: 'decision_logged',
+        at: d.timestamp,
+        session_id: d.session_id,
+        decision: d,
+      })),
+      invalid,
+    });
+  }
+
+  const sessionsDir = path.join(projectDir, 'sessions');
+  let sessionIds: string[] = [];
+  try {
+    sessionIds = fs.readdirSync(sessionsDir);
+  } catch {
+    // no sessions yet
+  }
+  for (const sessionId of sessionIds) {
+    const problemsFile = path.join(sessionsDir, sessionId, 'problems.json');
+    if (!fs.existsSync(problemsFile)) continue;
+    const { records, invalid } = readLegacyRecords(
+      problemsFile,
+      LegacyProblemSchema,
+    );
+    sources.push({
+      file: problemsFile,
+      events: legacyProblemEvents(sessionId, records),
+      invalid,
+    });
+  }
+  return sources;
+}
+
+export function hasLegacyFiles(projectDir: string): boolean {
+  return legacySources(projectDir).length > 0;
+}
+
+/** Records in legacy files that can't be migrated. */
+export function invalidLegacyRecords(projectDir: string): InvalidRecord[] {
+  return legacySources(projectDir).flatMap((s) => s.invalid);
+}
+
+/**
+ * Fold any pre-event-log `decisions.json` and `sessions/<id>/problems.json`
+ * files into the event stream, renaming each to `*.migrated` afterwards;
+ * records that don't fit the schema are left behind in the renamed file.
+ * Callers hold the event file's lock.
+ */
+export function migrateLegacyFiles(projectDir: string): void {
+  for (const source of legacySources(projectDir)) {
+    if (source.events.length > 0) {
+      appendEventLines(eventsPath(projectDir), source.events);
+    }
+    fs.renameSync(source.file, `${source.file}.migrated`);
+  }
+}
+
+/**
+ * Every event for a project: the stream plus events synthesized from legacy
+ * files that haven't been migrated yet (migration happens on first write).
+ */
+export function loadProjectEvents(projectDir: string): LogEvent[] {
+  const sources = legacySources(projectDir);
+  reportInvalid(sources.flatMap((s) => s.invalid));
+  const legacy = sources.flatMap((s) => s.events);
+  return [...legacy, ...readEventFile(eventsPath(projectDir))];
+}
+
+/**
+ * Fold events into decisions and problems. With `asOf`, only events at or
+ * before that ISO timestamp are applied, giving the state at that moment.
+ */
+export function replay(events: LogEvent[], asOf?: string): ProjectState {
+  const decisions = new Map<string, Decision>();
+  const problems = new Map<string, Problem>();
+  // Records with no short ID in their event or a `short_ids_assigned` one —
+  // from before short IDs, or decisions in a repository store — are numbered
+  // after every recorded one, in log order, so they can't take a number
+  // another record already has. Numbering ignores `asOf`, so a record keeps
+  // its short ID in every view.
+  const last = { D: 0, P: 0 };
+  const shortIds = new Map<string, string>();
+  const record = (kind: ShortIdKind, id: string, shortId?: string) => {
+    if (!shortId || shortIds.has(id)) return;
+    shortIds.set(id, shortId);
+    last[kind] = Math.max(last[kind], shortIdNumber(shortId));
+  };
+  for (const e of events) {
+    if (e.type === 'decision_logged') {
+      record('D', e.decision.id, e.decision.short_id);
+    } else if (e.type === 'problem_opened') {
+      record('P', e.problem.id, e.problem.short_id);
+    } else if (e.type === 'short_ids_assigned') {
+      for (const [id, shortId] of Object.entries(e.short_ids)) {
+        record('D', id, shortId);
+      }
+    }
+  }
+  const unrecorded: Record<string, string> = {};
+  for (const e of events) {
+    if (e.type === 'decision_logged' && !shortIds.has(e.decision.id)) {
+      const shortId = formatShortId('D', ++last.D);
+      shortIds.set(e.decision.id, shortId);
+      unrecorded[e.decision.id] = shortId;
+    } else if (e.type === 'problem_opened' && !shortIds.has(e.problem.id)) {
+      shortIds.set(e.problem.id, formatShortId('P', ++last.P));
+    }
+  }
+
+  for (const e of events) {
+    if (asOf && e.at > asOf) continue;
+    switch (e.type) {
+      case 'decision_logged':
+        // Records from before decision lifecycles have no status
+        decisions.set(e.decision.id, {
+          ...e.decision,
+          short_id: shortIds.get(e.decision.id),
+          status: e.decision.status ?? 'active',
+        });
+        break;
+      case 'decision_revised': {
+        const d = decisions.get(e.decision_id);
+        if (d) Object.assign(d, e.changes, { revised_at: e.at });
+        break;
+      }
+      case 'decision_superseded': {
+        const d = decisions.get(e.decision_id);
+        if (d) {
+          d.status = 'superseded';
+          d.superseded_by = e.superseded_by;
+        }
+        break;
+      }
+      case 'decision_deprecated': {
+        const d = decisions.get(e.decision_id);
+        if (d) {
+          d.status = 'deprecated';
+          d.deprecated_reason = e.reason;
+        }
+        break;
+      }
+      case 'decision_deleted':
+        decisions.delete(e.decision_id);
+        break;
+      // Counted in references.json since; older logs still have these
+      case 'decisions_referenced':
+        for (const id of e.decision_ids) {
+          const d = decisions.get(id);
+          if (d) d.reference_count = (d.reference_count ?? 0) + 1;
+        }
+        break;
+      case 'problem_opened':
+        problems.set(e.problem.id, {
+          ...e.problem,
+          short_id: shortIds.get(e.problem.id),
+          status: 'open',
+          approaches: [],
+        });
+        break;
+      case 'problem_resumed': {
+        const p = problems.get(e.problem_id);
+        if (p) {
+          p.session_id = e.session_id;
+          p.resumed_from = e.from_session_id;
+        }
+        break;
+      }
+      case 'approach_logged':
+        problems.get(e.problem_id)?.approaches.push(e.approach);
+        break;
+      case 'problem_closed': {
+        const p = problems.get(e.problem_id);
+        if (p) {
+          p.status = 'resolved';
+          p.resolution = e.resolution;
+          p.resolved_at = e.at;
+        }
+        break;
+      }
+    }
+  }
+
+  return {
+    decisions: [...decisions.values()],
+    problems: [...problems.values()],
+    lastShortId: last,
+    unrecordedShortIds: unrecorded,
+  };
+}
@@ -0,0 +1,164 @@
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { z } from 'zod';
+import { schemaError } from './types.js';
+
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_STALE_MS = 30_000;
+const RETRY_MS = 25;
+
+const sleepCell = new Int32Array(new SharedArrayBuffer(4));
+
+function sleep(ms: number): void {
+  Atomics.wait(sleepCell, 0, 0, ms);
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** The lock file's identity if it is stale, else null. */
+function staleLock(lockPath: string): fs.Stats | null {
+  try {
+    const stat = fs.statSync(lockPath);
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) return stat;
+    const pid = Number(fs.readFileSync(lockPath, 'utf-8').split('\n')[0]);
+    return pid > 0 && !isAlive(pid) ? stat : null;
+  } catch {
+    // vanished between attempts — just retry
+    return null;
+  }
+}
+
+function sameFile(a: fs.Stats, b: fs.Stats): boolean {
+  return a.dev === b.dev && a.ino === b.ino && a.mtimeMs === b.mtimeMs;
+}
+
+/**
+ * Move the stale lock aside under a name only we use, so two processes
+ * breaking it at once can't both succeed. If another process replaced it
+ * with a fresh lock after we looked, that lock is put back.
+ */
+function breakLock(lockPath: string, stale: fs.Stats): void {
+  const moved = `${lockPath}.${process.pid}-${randomUUID()}.broken`;
+  try {
+    fs.renameSync(lockPath, moved);
+  } catch {
+    // someone else broke it first
+    return;
+  }
+  try {
+    if (!sameFile(fs.statSync(moved), stale)) fs.linkSync(moved, lockPath);
+  } catch {
+    // a new lock was taken in the meantime; it stands
+  } finally {
+    fs.rmSync(moved, { force: true });
+  }
+}
+
+/**
+ * Run `fn` while holding an advisory lock on `file`. The lock is a sibling
+ * `.lock` file created with O_EXCL; locks left behind by dead processes or
+ * older than LOCK_STALE_MS are broken.
+ */
+export function withLock<T>(file: string, fn: () => T): T {
+  const lockPath = `${file}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, `${process.pid}\n${new Date().toISOString()}\n`);
+      fs.closeSync(fd);
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      const stale = staleLock(lockPath);
+      if (stale) {
+        breakLock(lockPath, stale);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock on ${file}`);
+      }
+      sleep(RETRY_MS);
+    }
+  }
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Write via a temp file in the same directory and rename over the target,
+ * so readers never see a partially written file.
+ */
+export function writeFileAtomic(file: string, data: string): void {
+  const tmp = path.join(
+    path.dirname(file),
+    `.${path.basename(file)}.${process.pid}.tmp`,
+  );
+  try {
+    fs.writeFileSync(tmp, data);
+    fs.renameSync(tmp, file);
+  } catch (err) {
+    fs.rmSync(tmp, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Read and parse a JSON file, leaving it as it is: null when it is missing,
+ * otherwise its value or why it doesn't parse or match `schema`.
+ */
+export function inspectJsonFile<T>(
+  file: string,
+  schema: z.ZodType<T>,
+): { value: T } | { error: string } | null {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return null;
+  }
+  try {
+    const value = JSON.parse(raw);
+    const error = schemaError(schema, value);
+    // The value as written, keeping fields this version doesn't know
+    return error ? { error } : { value };
+  } catch {
+    return { error: 'not valid JSON' };
+  }
+}
+
+/**
+ * Read and parse a JSON file. A missing file yields `fallback`; a file that
+ * fails to parse or to match `schema` is renamed to `<file>.corrupt-<time>`
+ * so the next write starts fresh without destroying what was there.
+ */
+export function readJsonFile<T>(
+  file: string,
+  fallback: T,
+  schema: z.ZodType<T>,
+): T {
+  const read = inspectJsonFile(file, schema);
+  if (!read) return fallback;
+  if ('value' in read) return read.value;
+  const quarantined = `${file}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  try {
+    fs.renameSync(file, quarantined);
+    process.stderr.write(
+      `decision-log: ${file} is corrupt (${read.error}); moved it to ${quarantined}\n`,
+    );
+  } catch {
+    // someone else already moved it
+  }
+  return fallback;
+}
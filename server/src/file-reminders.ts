@@ -0,0 +1,65 @@
+import { linkedPaths } from './code-links.js';
+import { truncate } from './compact-summary.js';
+import type { Decision } from './types.js';
+
+// Reminders injected before Claude edits a file: the active decisions linked
+// to it or a directory containing it, then those tagged with one of its
+// directory or file names. The hook only mentions each decision once per
+// session — and again after compaction, when Claude has forgotten it.
+
+const MAX_REMINDERS = 3;
+const RATIONALE_CHARS = 160;
+
+/** Lower-cased directory names and file stem of a root-relative path. */
+function pathWords(file: string): Set<string> {
+  const parts = file.toLowerCase().split('/');
+  const stem = (parts.pop() ?? '').replace(/\.[^.]*$/, '');
+  return new Set([...parts, stem].filter((w) => w && w !== '.' && w !== '..'));
+}
+
+/** Active decisions relevant to `file`, linked ones first, newest first. */
+export function decisionsForFile(
+  decisions: Decision[],
+  file: string,
+): Decision[] {
+  const active = decisions
+    .filter((d) => d.status === 'active')
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  const linked = active.filter((d) => linkedPaths(d.files, file).length > 0);
+  const words = pathWords(file);
+  const tagged = active.filter(
+    (d) =>
+      !linked.includes(d) && d.tags.some((t) => words.has(t.toLowerCase())),
+  );
+  return [...linked, ...tagged];
+}
+
+export function reminderLine(d: Decision): string {
+  const others = d.options.map((o) => o.name).filter((n) => n !== d.chosen);
+  const over = others.length > 0 ? ` over ${others.join(', ')}` : '';
+  return `${d.short_id ?? d.id} (${d.topic}): chose ${d.chosen}${over} — ${truncate(d.rationale, RATIONALE_CHARS)}`;
+}
+
+/**
+ * The reminder for an edit to `file`, skipping decisions in `shown`, or
+ * null when there is nothing new to say. `reminded` is what it mentions.
+ */
+export function fileReminder(
+  decisions: Decision[],
+  file: string,
+  shown: ReadonlySet<string>,
+): { text: string; reminded: Decision[] } | null {
+  const fresh = decisionsForFile(decisions, file).filter(
+    (d) => !shown.has(d.id),
+  );
+  if (fresh.length === 0) return null;
+  const reminded = fresh.slice(0, MAX_REMINDERS);
+  const more =
+    fresh.length > reminded.length
+      ? `\n(${fresh.length - reminded.length} more — call decisions_for_path)`
+      : '';
+  return {
+    text: `Decisions that apply to ${file}:\n${reminded.map((d) => `- ${reminderLine(d)}`).join('\n')}${more}`,
+    reminded,
+  };
+}
@@ -1,17 +1,55 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { getProjectSlug, STORAGE_ROOT } from './project-slug.js';
+import { z } from 'zod';
+import { outcomeLabel } from './approaches.js';
+import { normalizeLinkPath } from './code-links.js';
+import { compactSummary, truncate } from './compact-summary.js';
+import { loadConfig } from './config.js';
+import { decisionDigest } from './digest.js';
+import {
+  errorLine,
+  errorSignature,
+  findSeenErrors,
+  type SeenError,
+} from './error-signature.js';
+import { replay } from './event-log.js';
+import { readJsonFile, withLock, writeFileAtomic } from './file-lock.js';
+import { fileReminder } from './file-reminders.js';
+import { getProjectDir, getProjectRoot } from './project-slug.js';
+import { findRepoStore, loadStoreEvents } from './repo-store.js';
+import { hookClaudePids, writeSessionHandoff } from './session-handoff.js';
+import { Storage } from './storage.js';
+import {
+  type Decision,
+  type Problem,
+  SessionMetadataSchema,
+  schemaError,
+} from './types.js';
 
-interface HookInput {
-  cwd?: string;
-  session_id?: string;
-  [key: string]: unknown;
-}
+// The fields of Claude Code's hook input that the hooks use
+const HookInputSchema = z.object({
+  cwd: z.string().optional(),
+  session_id: z.string().optional(),
+  source: z.string().optional(),
+  tool_name: z.string().optional(),
+  tool_input: z
+    .object({
+      file_path: z.string().optional(),
+      command: z.string().optional(),
+    })
+    .optional(),
+  hook_event_name: z.string().optional(),
+  // What a failed tool call reported, on PostToolUseFailure
+  error: z.string().optional(),
+});
+
+type HookInput = z.infer<typeof HookInputSchema>;
 
 function readInput(): HookInput {
   try {
     const raw = fs.readFileSync(0, 'utf-8');
-    return JSON.parse(raw);
+    const parsed = HookInputSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : {};
   } catch {
     return {};
   }
@@ -21,6 +59,7 @@ function output(result: {
   continue: boolean;
   suppressOutput: boolean;
   systemMessage: string;
+  hookSpecificOutput?: { hookEventName: string; additionalContext: string };
 }) {
   process.stdout.write(JSON.stringify(result));
 }
@@ -45,28 +84,113 @@ function findLatestSessionDir(sessionsDir: string): string | null {
   return latest?.dir ?? null;
 }
 
+function findSessionDir(projectDir: string, sessionId?: string): string | null {
+  const sessionsDir = path.join(projectDir, 'sessions');
+  if (sessionId) {
+    const dir = path.join(sessionsDir, sessionId);
+    if (fs.existsSync(path.join(dir, 'metadata.json'))) return dir;
+  }
+  // Older Claude Code versions don't send session_id; guess by recency.
+  return findLatestSessionDir(sessionsDir);
+}
+
+// IDs of decisions a session has already been reminded of before edits
+const REMINDED_FILE = 'reminded.json';
+
+const SEEN_ERROR_LIMIT = 3;
+
+const CARRY_OVER_DAYS = 14;
+const CARRY_OVER_PROBLEMS = 5;
+const CARRY_OVER_APPROACHES = 3;
+
+/** Open problems left behind by other recent sessions, newest first. */
+function carriedOverProblems(
+  problems: Problem[],
+  currentSessionId?: string,
+): Problem[] {
+  const cutoff = Date.now() - CARRY_OVER_DAYS * 24 * 60 * 60 * 1000;
+  return problems
+    .filter(
+      (p) =>
+        p.status === 'open' &&
+        p.session_id !== currentSessionId &&
+        Date.parse(p.created_at) >= cutoff,
+    )
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, CARRY_OVER_PROBLEMS);
+}
+
 export function runSessionStart() {
   const input = readInput();
   const cwd = input.cwd;
   if (!cwd) process.exit(0);
 
-  const slug = getProjectSlug(cwd);
-  const decisionsPath = path.join(STORAGE_ROOT, slug, 'decisions.json');
+  const projectDir = getProjectDir(cwd);
+
+  if (input.session_id) {
+    try {
+      writeSessionHandoff(projectDir, {
+        session_id: input.session_id,
+        cwd,
+        source: input.source,
+        created_at: new Date().toISOString(),
+        claude_pids: hookClaudePids(),
+      });
+    } catch {
+      // the MCP server falls back to its own session id
+    }
+  }
+
+  if (!fs.existsSync(projectDir)) process.exit(0);
+
+  const { decisions, problems } = replay(
+    loadStoreEvents(projectDir, findRepoStore(cwd)),
+  );
+  const lines: string[] = [];
 
-  if (!fs.existsSync(decisionsPath)) process.exit(0);
+  const active = decisions.filter((d) => d.status === 'active');
+  if (active.length > 0) {
+    const retired = decisions.length - active.length;
+    const retiredNote =
+      retired > 0
+        ? ` (${retired} more superseded or deprecated, hidden from search by default)`
+        : '';
+    lines.push(
+      `Decision log: ${active.length} project decision(s) on record from prior sessions${retiredNote}. Search them before re-deciding something that may already be settled.`,
+      '',
+      'KEY DECISIONS:',
+      ...decisionDigest(active, loadConfig().sessionStartChars),
+    );
+  }
 
-  try {
-    const decisions = JSON.parse(fs.readFileSync(decisionsPath, 'utf-8'));
-    if (!Array.isArray(decisions) || decisions.length === 0) process.exit(0);
-
-    output({
-      continue: true,
-      suppressOutput: true,
-      systemMessage: `Decision log: ${decisions.length} project decision(s) on record from prior sessions. Search them before re-deciding something that may already be settled.`,
-    });
-  } catch {
-    process.exit(0);
+  const carried = carriedOverProblems(problems, input.session_id);
+  if (carried.length > 0) {
+    if (lines.length > 0) lines.push('');
+    lines.push(
+      'UNRESOLVED PROBLEMS FROM RECENT SESSIONS — call the decision-log resume_problem tool to continue one here with its history:',
+    );
+    for (const p of carried) {
+      lines.push(
+        `[OPEN] ${p.problem} (${p.created_at.slice(0, 10)}) [id: ${p.short_id ?? p.id}]`,
+      );
+      const failed = p.approaches.filter((a) => a.outcome === 'failed');
+      for (const a of failed.slice(-CARRY_OVER_APPROACHES)) {
+        lines.push(`  - FAILED: ${a.approach} — ${truncate(a.details, 120)}`);
+      }
+      const older = failed.length - CARRY_OVER_APPROACHES;
+      if (older > 0) {
+        lines.push(`  - (${older} earlier failed approach(es) not shown)`);
+      }
+    }
   }
+
+  if (lines.length === 0) process.exit(0);
+
+  output({
+    continue: true,
+    suppressOutput: true,
+    systemMessage: lines.join('\n'),
+  });
 }
 
 export function runPreCompact() {
@@ -74,123 +198,218 @@ export function runPreCompact() {
   const cwd = input.cwd;
   if (!cwd) process.exit(0);
 
-  const slug = getProjectSlug(cwd);
-  const projectDir = path.join(STORAGE_ROOT, slug);
+  const projectDir = getProjectDir(cwd);
 
   if (!fs.existsSync(projectDir)) process.exit(0);
 
-  const latestSessionDir = findLatestSessionDir(
-    path.join(projectDir, 'sessions'),
-  );
-  if (!latestSessionDir) process.exit(0);
+  const sessionDir = findSessionDir(projectDir, input.session_id);
+  if (!sessionDir) process.exit(0);
 
-  // Read session metadata for session_id
-  let sessionId = '';
+  // Claude forgets earlier reminders along with the rest of the context
+  fs.rmSync(path.join(sessionDir, REMINDED_FILE), { force: true });
+
+  let sessionId = path.basename(sessionDir);
   try {
     const meta = JSON.parse(
-      fs.readFileSync(path.join(latestSessionDir, 'metadata.json'), 'utf-8'),
+      fs.readFileSync(path.join(sessionDir, 'metadata.json'), 'utf-8'),
     );
-    sessionId = meta.session_id || '';
+    if (!schemaError(SessionMetadataSchema, meta)) sessionId = meta.session_id;
   } catch {
-    // continue without session_id filtering
+    // directory name is the session id
   }
 
-  const lines: string[] = [];
+  const state = replay(loadStoreEvents(projectDir, findRepoStore(cwd)));
+  const message = compactSummary(
+    {
+      problems: state.problems.filter((p) => p.session_id === sessionId),
+      allProblems: state.problems,
+      sessionDecisions: state.decisions.filter(
+        (d) => d.session_id === sessionId,
+      ),
+      otherDecisions: state.decisions.filter(
+        (d) => d.session_id !== sessionId && d.status === 'active',
+      ).length,
+    },
+    loadConfig().preCompactChars,
+  );
+  if (!message) process.exit(0);
 
-  // Problems — full detail for open, summarized for resolved
-  const problemsPath = path.join(latestSessionDir, 'problems.json');
-  if (fs.existsSync(problemsPath)) {
-    try {
-      const problems = JSON.parse(fs.readFileSync(problemsPath, 'utf-8'));
-      if (Array.isArray(problems) && problems.length > 0) {
-        const open = problems.filter((p: any) => p.status !== 'resolved');
-        const resolved = problems.filter((p: any) => p.status === 'resolved');
-
-        if (open.length > 0) {
-          lines.push('OPEN PROBLEMS:');
-          for (const p of open) {
-            lines.push(`[OPEN] ${p.problem}`);
-            if (Array.isArray(p.approaches)) {
-              for (const a of p.approaches) {
-                const label = a.outcome === 'failed' ? 'FAILED' : 'SUCCEEDED';
-                const details =
-                  a.details.length > 120
-                    ? `${a.details.slice(0, 120)}...`
-                    : a.details;
-                lines.push(`  - ${label}: ${a.approach} — ${details}`);
-              }
-            }
-            lines.push('');
-          }
-        }
-
-        if (resolved.length > 0) {
-          lines.push('RESOLVED PROBLEMS:');
-          for (const p of resolved) {
-            const failCount = Array.isArray(p.approaches)
-              ? p.approaches.filter((a: any) => a.outcome === 'failed').length
-              : 0;
-            const suffix =
-              failCount > 0
-                ? ` (${failCount} failed approach${failCount > 1 ? 'es' : ''})`
-                : '';
-            lines.push(
-              `- ${p.problem} → ${p.resolution || 'resolved'}${suffix}`,
-            );
-          }
-          lines.push('');
-        }
-      }
-    } catch {
-      // skip malformed problems
-    }
-  }
+  output({
+    continue: true,
+    suppressOutput: true,
+    systemMessage: message,
+  });
+}
 
-  // Decisions
-  const decPath = path.join(projectDir, 'decisions.json');
-  let sessionDecCount = 0;
-  let totalDecCount = 0;
-  if (fs.existsSync(decPath)) {
-    try {
-      const decisions = JSON.parse(fs.readFileSync(decPath, 'utf-8'));
-      if (Array.isArray(decisions)) {
-        totalDecCount = decisions.length;
-        const sessionDecs = sessionId
-          ? decisions.filter((d: any) => d.session_id === sessionId)
-          : decisions;
-        sessionDecCount = sessionDecs.length;
-
-        if (sessionDecs.length > 0) {
-          lines.push('DECISIONS THIS SESSION:');
-          for (const d of sessionDecs) {
-            lines.push(`- ${d.topic}: ${d.chosen} — ${d.rationale}`);
-          }
-          lines.push('');
-        }
-
-        const other = totalDecCount - sessionDecCount;
-        if (other > 0) {
-          lines.push(
-            `${other} additional project decision(s) from prior sessions. Search them before making overlapping decisions.`,
-          );
-        }
-      }
-    } catch {
-      // skip malformed decisions
+/**
+ * `fileReminder` for a session, leaving out decisions it was already
+ * reminded of and recording the ones it is reminded of now.
+ */
+function sessionFileReminder(
+  remindedFile: string,
+  decisions: Decision[],
+  file: string,
+) {
+  fs.mkdirSync(path.dirname(remindedFile), { recursive: true });
+  return withLock(remindedFile, () => {
+    const shown = readJsonFile(remindedFile, [], z.array(z.string()));
+    const reminder = fileReminder(decisions, file, new Set(shown));
+    if (reminder) {
+      const ids = [...shown, ...reminder.reminded.map((d) => d.id)];
+      writeFileAtomic(remindedFile, JSON.stringify(ids));
     }
+    return reminder;
+  });
+}
+
+export function runPreToolUse() {
+  const input = readInput();
+  const cwd = input.cwd;
+  const target = input.tool_input?.file_path;
+  if (!cwd || !target) process.exit(0);
+
+  const projectDir = getProjectDir(cwd);
+  if (!fs.existsSync(projectDir)) process.exit(0);
+
+  const file = normalizeLinkPath(getProjectRoot(cwd), cwd, target);
+  if (file.startsWith('../')) process.exit(0);
+
+  const { decisions } = replay(loadStoreEvents(projectDir, findRepoStore(cwd)));
+  // Without a session id there is nothing to rate-limit against
+  const reminder = input.session_id
+    ? sessionFileReminder(
+        path.join(projectDir, 'sessions', input.session_id, REMINDED_FILE),
+        decisions,
+        file,
+      )
+    : fileReminder(decisions, file, new Set());
+  if (!reminder) process.exit(0);
+
+  output({
+    continue: true,
+    suppressOutput: true,
+    systemMessage: reminder.text,
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse',
+      additionalContext: reminder.text,
+    },
+  });
+}
+
+export function runSessionEnd() {
+  const input = readInput();
+  const cwd = input.cwd;
+  if (!cwd || !input.session_id) process.exit(0);
+  if (!fs.existsSync(getProjectDir(cwd))) process.exit(0);
+
+  new Storage(cwd, input.session_id, { detached: true }).endSession();
+}
+
+/**
+ * What a Bash call reported when it failed. Only Claude Code's failure event
+ * counts: a command that succeeded is never treated as failing, whatever it
+ * wrote to stderr (npm warnings, for one) or stdout (grep matches).
+ */
+function failureOutput(input: HookInput): string | null {
+  if (input.hook_event_name !== 'PostToolUseFailure') return null;
+  return input.error || null;
+}
+
+function seenErrorLines({ problem: p, approach: a }: SeenError): string[] {
+  const ref = p.short_id ?? p.id;
+  const lines = [
+    p.status === 'resolved'
+      ? `- in ${ref} "${p.problem}"; resolution was: ${p.resolution}`
+      : `- in ${ref} "${p.problem}" (still open)`,
+  ];
+  if (a) {
+    lines.push(
+      `  ${outcomeLabel(a.outcome)}: ${a.approach} — ${truncate(a.details, 120)}`,
+    );
   }
+  return lines;
+}
 
-  if (lines.length === 0) process.exit(0);
+/**
+ * Record a failed command as an approach on the session's most recently
+ * opened problem, unless the same command already failed the same way
+ * there. Returns the problem, or null when nothing was recorded.
+ */
+function draftApproach(
+  cwd: string,
+  sessionId: string,
+  command: string,
+  line: string,
+  signature: string,
+): Problem | null {
+  const storage = new Storage(cwd, sessionId, { detached: true });
+  const problem = storage
+    .readProblems()
+    .filter((p) => p.status === 'open')
+    .at(-1);
+  if (!problem) return null;
+  const repeated = problem.approaches.some(
+    (a) =>
+      a.commands?.includes(command) &&
+      a.error_signature !== undefined &&
+      errorSignature(a.error_signature) === signature,
+  );
+  if (repeated) return null;
+  storage.logApproach(problem.id, {
+    approach: `Ran \`${truncate(command, 120)}\``,
+    outcome: 'failed',
+    details: `${truncate(line, 300)} (recorded from a failed Bash command)`,
+    timestamp: new Date().toISOString(),
+    commands: [command],
+    error_signature: signature,
+  });
+  return problem;
+}
 
-  const message = [
-    'DECISION LOG (preserved through compaction) — call the decision-log get_context tool to reload full details.',
-    '',
-    ...lines,
-  ].join('\n');
+export function runPostToolUse() {
+  const input = readInput();
+  const cwd = input.cwd;
+  const command = input.tool_input?.command;
+  const failure = failureOutput(input);
+  if (!cwd || !command || !failure) process.exit(0);
+
+  const line = errorLine(failure);
+  if (!line) process.exit(0);
+  const signature = errorSignature(line);
+
+  const projectDir = getProjectDir(cwd);
+  if (!fs.existsSync(projectDir)) process.exit(0);
+
+  const { problems } = replay(loadStoreEvents(projectDir, findRepoStore(cwd)));
+  const seen = findSeenErrors(problems, signature).slice(0, SEEN_ERROR_LIMIT);
+  const drafted =
+    loadConfig().draftApproaches && input.session_id
+      ? draftApproach(cwd, input.session_id, command, line, signature)
+      : null;
+  if (seen.length === 0 && !drafted) process.exit(0);
+
+  const lines: string[] = [];
+  if (seen.length > 0) {
+    lines.push(
+      `This error was seen before (${signature}):`,
+      ...seen.flatMap(seenErrorLines),
+    );
+  }
+  if (drafted) {
+    if (lines.length > 0) lines.push('');
+    lines.push(
+      `Logged this failure as an approach on ${drafted.short_id ?? drafted.id} "${drafted.problem}". Add what you learned from it with the decision-log log_approach tool.`,
+    );
+  }
+  const text = lines.join('\n');
 
   output({
     continue: true,
     suppressOutput: true,
-    systemMessage: message,
+    systemMessage: text,
+    hookSpecificOutput: {
+      hookEventName: 'PostToolUseFailure',
+      additionalContext: text,
+    },
   });
 }
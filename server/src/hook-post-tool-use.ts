@@ -0,0 +1,3 @@
+import { runPostToolUse } from './hook-helpers.js';
+
+runPostToolUse();
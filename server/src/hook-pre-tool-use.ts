@@ -0,0 +1,3 @@
+import { runPreToolUse } from './hook-helpers.js';
+
+runPreToolUse();
@@ -0,0 +1,3 @@
+import { runSessionEnd } from './hook-helpers.js';
+
+runSessionEnd();
@@ -1,10 +1,8 @@
-import { randomUUID } from 'node:crypto';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { Storage } from './storage.js';
 import { registerTools } from './tools.js';
 
-const sessionId = randomUUID();
 const cwd = process.cwd();
 
 const server = new McpServer({
@@ -12,9 +10,11 @@ const server = new McpServer({
   version: '0.1.0',
 });
 
-const storage = new Storage(cwd, sessionId);
+// DECISION_LOG_SESSION_ID pins the session explicitly; otherwise Storage
+// adopts the session announced by the SessionStart hook.
+const storage = new Storage(cwd, process.env.DECISION_LOG_SESSION_ID);
 
-registerTools(server, storage, sessionId);
+registerTools(server, storage);
 
 const transport = new StdioServerTransport();
 await server.connect(transport);
@@ -0,0 +1,175 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+import {
+  eventsPath,
+  hasLegacyFiles,
+  type InvalidRecord,
+  invalidLegacyRecords,
+  migrateLegacyFiles,
+  parseEventFile,
+  replay,
+} from './event-log.js';
+import { inspectJsonFile, writeFileAtomic } from './file-lock.js';
+import { invalidRepoRecords, loadStoreEvents } from './repo-store.js';
+
+// Each store records the layout it was written in as `schema_version` in its
+// `store.json`. Before anything is written, an older store is upgraded one
+// version at a time, and each step backs up the files it rewrites as
+// `<file>.v<N>.bak`. A store written by a newer version is left alone.
+
+/** Current layout of the home directory store. */
+export const SCHEMA_VERSION = 3;
+/** Current layout of the repository's `.decision-log/`. */
+export const REPO_SCHEMA_VERSION = 1;
+
+const StoreInfoSchema = z.object({
+  schema_version: z.number().int().positive(),
+});
+
+interface Migration {
+  /** The version this step upgrades the home store to. */
+  to: number;
+  migrate: (projectDir: string, repoStore: string | null) => void;
+}
+
+const MIGRATIONS: Migration[] = [
+  // decisions.json and sessions/<id>/problems.json become events.jsonl
+  { to: 2, migrate: (projectDir) => migrateLegacyFiles(projectDir) },
+  // Short IDs derived on replay for older records are written down
+  { to: 3, migrate: backfillShortIds },
+];
+
+function storeInfoPath(dir: string): string {
+  return path.join(dir, 'store.json');
+}
+
+// Read without quarantining, so checkStore leaves a damaged store.json be
+function recordedVersion(dir: string): number | null {
+  const read = inspectJsonFile(storeInfoPath(dir), StoreInfoSchema);
+  return read && 'value' in read ? read.value.schema_version : null;
+}
+
+function writeSchemaVersion(dir: string, version: number): void {
+  writeFileAtomic(
+    storeInfoPath(dir),
+    `${JSON.stringify({ schema_version: version }, null, 2)}\n`,
+  );
+}
+
+/**
+ * The version of the home store in `projectDir`. Stores from before
+ * `store.json` are recognized by their files.
+ */
+export function schemaVersion(projectDir: string): number {
+  const recorded = recordedVersion(projectDir);
+  if (recorded !== null) return recorded;
+  if (hasLegacyFiles(projectDir)) return 1;
+  return fs.existsSync(eventsPath(projectDir)) ? 2 : SCHEMA_VERSION;
+}
+
+export function repoSchemaVersion(repoStore: string): number {
+  return recordedVersion(repoStore) ?? REPO_SCHEMA_VERSION;
+}
+
+function refuseNewer(dir: string, version: number, supported: number): void {
+  if (version > supported) {
+    throw new Error(
+      `${dir} was written by a newer decision-log (schema version ${version}, this one supports ${supported}); upgrade the plugin to change it`,
+    );
+  }
+}
+
+function backup(file: string, version: number): void {
+  if (fs.existsSync(file)) fs.copyFileSync(file, `${file}.v${version}.bak`);
+}
+
+function backfillShortIds(projectDir: string, repoStore: string | null): void {
+  const file = eventsPath(projectDir);
+  if (!fs.existsSync(file)) return;
+  const { decisions, problems } = replay(
+    loadStoreEvents(projectDir, repoStore),
+  );
+  const shortIds = new Map(
+    [...decisions, ...problems].map((x) => [x.id, x.short_id]),
+  );
+
+  const lines = fs.readFileSync(file, 'utf-8').split('\n');
+  const upgraded = lines.map((line) => {
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      // blank, torn or corrupt lines are kept as they are
+      return line;
+    }
+    const record =
+      event.type === 'decision_logged'
+        ? event.decision
+        : event.type === 'problem_opened'
+          ? event.problem
+          : null;
+    if (!record || typeof record !== 'object') return line;
+    const r = record as { id?: unknown; short_id?: unknown };
+    const shortId = typeof r.id === 'string' ? shortIds.get(r.id) : undefined;
+    if (r.short_id || !shortId) return line;
+    r.short_id = shortId;
+    return JSON.stringify(event);
+  });
+  backup(file, 2);
+  writeFileAtomic(file, upgraded.join('\n'));
+}
+
+/**
+ * Upgrade the home store, and check the repository store, before writing.
+ * Throws when either was written by a newer version. Callers hold the event
+ * file's lock.
+ */
+export function migrateStore(
+  projectDir: string,
+  repoStore: string | null,
+): void {
+  const from = schemaVersion(projectDir);
+  refuseNewer(projectDir, from, SCHEMA_VERSION);
+  let version = from;
+  for (const m of MIGRATIONS) {
+    if (m.to <= version) continue;
+    m.migrate(projectDir, repoStore);
+    version = m.to;
+    writeSchemaVersion(projectDir, version);
+  }
+  // A new store, or an old one that needed nothing done, gets its version
+  if (version === from && recordedVersion(projectDir) === null) {
+    writeSchemaVersion(projectDir, version);
+  }
+
+  if (repoStore) {
+    refuseNewer(repoStore, repoSchemaVersion(repoStore), REPO_SCHEMA_VERSION);
+    if (recordedVersion(repoStore) === null) {
+      writeSchemaVersion(repoStore, REPO_SCHEMA_VERSION);
+    }
+  }
+}
+
+export interface StoreReport {
+  schemaVersion: number;
+  repoSchemaVersion: number | null;
+  /** Records left out of the log because they don't fit the schema. */
+  invalid: InvalidRecord[];
+}
+
+/** Versions and invalid records of a project's stores, without changing them. */
+export function checkStore(
+  projectDir: string,
+  repoStore: string | null,
+): StoreReport {
+  return {
+    schemaVersion: schemaVersion(projectDir),
+    repoSchemaVersion: repoStore ? repoSchemaVersion(repoStore) : null,
+    invalid: [
+      ...invalidLegacyRecords(projectDir),
+      ...parseEventFile(eventsPath(projectDir)).invalid,
+      ...(repoStore ? invalidRepoRecords(repoStore) : []),
+    ],
+  };
+}
@@ -0,0 +1,74 @@
+import type { Problem } from './types.js';
+
+// Problems can be split into sub-problems (`parent_id`) and can wait on other
+// problems (`blocked_by`). These helpers put a list of problems in tree order
+// and describe what each one is waiting on, for the tools and the PreCompact
+// summary to render.
+
+export interface ProblemNode {
+  problem: Problem;
+  /** 0 for a problem whose parent isn't in the list. */
+  depth: number;
+}
+
+/**
+ * `problems` with each one followed by its sub-problems, depth first.
+ * Siblings keep the order they had in the list.
+ */
+export function problemTree(problems: Problem[]): ProblemNode[] {
+  const ids = new Set(problems.map((p) => p.id));
+  const children = new Map<string, Problem[]>();
+  const roots: Problem[] = [];
+  for (const p of problems) {
+    if (p.parent_id && p.parent_id !== p.id && ids.has(p.parent_id)) {
+      children.set(p.parent_id, [...(children.get(p.parent_id) ?? []), p]);
+    } else {
+      roots.push(p);
+    }
+  }
+
+  const nodes: ProblemNode[] = [];
+  const seen = new Set<string>();
+  const visit = (p: Problem, depth: number) => {
+    if (seen.has(p.id)) return;
+    seen.add(p.id);
+    nodes.push({ problem: p, depth });
+    for (const c of children.get(p.id) ?? []) visit(c, depth + 1);
+  };
+  for (const p of roots) visit(p, 0);
+  // A parent cycle has no root; its members are listed at the top level
+  for (const p of problems) visit(p, 0);
+  return nodes;
+}
+
+export function openChildren(problems: Problem[], id: string): Problem[] {
+  return problems.filter((p) => p.parent_id === id && p.status === 'open');
+}
+
+/** The problems `p` is still waiting on. */
+export function openBlockers(p: Problem, problems: Problem[]): Problem[] {
+  const blockers = new Set(p.blocked_by ?? []);
+  return problems.filter((b) => blockers.has(b.id) && b.status === 'open');
+}
+
+function ref(p: Problem): string {
+  return p.short_id ?? p.id;
+}
+
+/**
+ * ` (sub-problem of P-1; blocked by P-3)`, or nothing. The parent is only
+ * named when the problem isn't shown under it. `all` is where parents and
+ * blockers are looked up, and can reach beyond the problems rendered.
+ */
+export function relationNote(node: ProblemNode, all: Problem[]): string {
+  const { problem: p, depth } = node;
+  const notes: string[] = [];
+  const parent =
+    depth === 0 && p.parent_id ? all.find((x) => x.id === p.parent_id) : null;
+  if (parent) notes.push(`sub-problem of ${ref(parent)}`);
+  const blockers = openBlockers(p, all);
+  if (blockers.length > 0) {
+    notes.push(`blocked by ${blockers.map(ref).join(', ')}`);
+  }
+  return notes.length > 0 ? ` (${notes.join('; ')})` : '';
+}
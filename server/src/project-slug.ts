@@ -25,3 +25,47 @@ export function getProjectSlug(cwd: string): string {
   }
   return shortHash(cwd);
 }
+
+export function getProjectDir(cwd: string): string {
+  return path.join(STORAGE_ROOT, getProjectSlug(cwd));
+}
+
+/** The commit checked out in `cwd`, or null outside git or before one. */
+export function getHeadCommit(cwd: string): string | null {
+  try {
+    return execFileSync('git', ['rev-parse', 'HEAD'], {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }).trim();
+  } catch {
+    return null;
+  }
+}
+
+/** The checked-out branch, or null when HEAD is detached or not in git. */
+export function getCurrentBranch(cwd: string): string | null {
+  try {
+    const branch = execFileSync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }).trim();
+    return branch && branch !== 'HEAD' ? branch : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The root of the git checkout containing `cwd`, or `cwd` itself. */
+export function getProjectRoot(cwd: string): string {
+  try {
+    return execFileSync('git', ['rev-parse', '--show-toplevel'], {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }).trim();
+  } catch {
+    return cwd;
+  }
+}
@@ -0,0 +1,175 @@
+import { errorLine, errorSignature } from './error-signature.js';
+import { formatDuration } from './session-report.js';
+import type { Decision, Problem } from './types.js';
+
+// Where a project's sessions spend their time, across every session: how
+// many problems get solved, how many attempts and how long that takes, which
+// failures keep coming back, and how fast decisions are being made.
+
+const TOP_N = 10;
+const WEEKS_SHOWN = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Count {
+  value: string;
+  count: number;
+}
+
+export interface ProjectStats {
+  sessions: number;
+  problems: { opened: number; resolved: number; open: number };
+  failedApproaches: number;
+  /** Approaches tried before the first that succeeded, over problems with a success. */
+  medianApproachesBeforeSuccess: number | null;
+  problemsWithSuccess: number;
+  /** From `created_at` to `close_problem`, over resolved problems. */
+  medianResolutionMs: number | null;
+  problemsTimed: number;
+  /** Error signatures of failed approaches, most common first. */
+  failureSignatures: Count[];
+  /** Decision tags, most common first. */
+  tags: Count[];
+  /**
+   * Decisions made each week (starting Monday, UTC) in the `WEEKS_SHOWN`
+   * weeks up to the newest decision, oldest first, gaps included.
+   */
+  decisionsPerWeek: { week: string; decisions: number }[];
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function topCounts(values: string[]): Count[] {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, TOP_N);
+}
+
+/** The Monday starting the UTC week of `timestamp`, as `YYYY-MM-DD`. */
+export function weekOf(timestamp: string): string {
+  const time = new Date(Date.parse(timestamp));
+  const sinceMonday = (time.getUTCDay() + 6) % 7;
+  return new Date(time.getTime() - sinceMonday * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function weekly(decisions: Decision[]): ProjectStats['decisionsPerWeek'] {
+  const stamped = decisions.filter(
+    (d) => !Number.isNaN(Date.parse(d.timestamp)),
+  );
+  if (stamped.length === 0) return [];
+  const counts = new Map<string, number>();
+  for (const d of stamped) {
+    const week = weekOf(d.timestamp);
+    counts.set(week, (counts.get(week) ?? 0) + 1);
+  }
+  const weeks = [...counts.keys()].sort();
+  const result: ProjectStats['decisionsPerWeek'] = [];
+  const last = Date.parse(weeks[weeks.length - 1]);
+  const first = Math.max(
+    Date.parse(weeks[0]),
+    last - (WEEKS_SHOWN - 1) * 7 * DAY_MS,
+  );
+  for (let t = first; t <= last; t += 7 * DAY_MS) {
+    const week = new Date(t).toISOString().slice(0, 10);
+    result.push({ week, decisions: counts.get(week) ?? 0 });
+  }
+  return result;
+}
+
+/** The failure's recorded signature, or one taken from its details. */
+function failureSignature(details: string, recorded?: string): string | null {
+  if (recorded) return errorSignature(recorded);
+  const line = errorLine(details);
+  return line ? errorSignature(line) : null;
+}
+
+export function projectStats(
+  state: { decisions: Decision[]; problems: Problem[] },
+  sessions: number,
+): ProjectStats {
+  const { decisions, problems } = state;
+  const resolved = problems.filter((p) => p.status === 'resolved');
+  const failures = problems.flatMap((p) =>
+    p.approaches.filter((a) => a.outcome === 'failed'),
+  );
+
+  const beforeSuccess = problems
+    .map((p) => p.approaches.findIndex((a) => a.outcome === 'succeeded'))
+    .filter((i) => i >= 0);
+  const resolutionMs = resolved
+    .map((p) =>
+      p.resolved_at
+        ? Date.parse(p.resolved_at) - Date.parse(p.created_at)
+        : NaN,
+    )
+    .filter((ms) => !Number.isNaN(ms) && ms >= 0);
+
+  return {
+    sessions,
+    problems: {
+      opened: problems.length,
+      resolved: resolved.length,
+      open: problems.length - resolved.length,
+    },
+    failedApproaches: failures.length,
+    medianApproachesBeforeSuccess: median(beforeSuccess),
+    problemsWithSuccess: beforeSuccess.length,
+    medianResolutionMs: median(resolutionMs),
+    problemsTimed: resolutionMs.length,
+    failureSignatures: topCounts(
+      failures.flatMap(
+        (a) => failureSignature(a.details, a.error_signature) ?? [],
+      ),
+    ),
+    tags: topCounts(
+      decisions.flatMap((d) => d.tags.map((t) => t.toLowerCase())),
+    ),
+    decisionsPerWeek: weekly(decisions),
+  };
+}
+
+function countLines(counts: Count[]): string[] {
+  return counts.map((c) => `- ${c.count}× ${c.value}`);
+}
+
+export function renderProjectStats(s: ProjectStats): string {
+  const p = s.problems;
+  const lines = [
+    `Project stats across ${s.sessions} session(s)`,
+    '',
+    `Problems: ${p.opened} opened, ${p.resolved} resolved, ${p.open} still open; ${s.failedApproaches} failed approach(es)`,
+    s.medianApproachesBeforeSuccess === null
+      ? 'Approaches before success: no approach has succeeded yet'
+      : `Median approaches before success: ${s.medianApproachesBeforeSuccess} (over ${s.problemsWithSuccess} problem(s))`,
+    s.medianResolutionMs === null
+      ? 'Time to resolution: no resolved problem with a recorded close time'
+      : `Median time to resolution: ${formatDuration(s.medianResolutionMs)} (over ${s.problemsTimed} problem(s))`,
+  ];
+  if (s.failureSignatures.length > 0) {
+    lines.push('', 'Most common failures:', ...countLines(s.failureSignatures));
+  }
+  if (s.tags.length > 0) {
+    lines.push('', 'Most common decision tags:', ...countLines(s.tags));
+  }
+  const weeks = s.decisionsPerWeek;
+  if (weeks.length > 0) {
+    const total = weeks.reduce((n, w) => n + w.decisions, 0);
+    lines.push(
+      '',
+      `Decisions per week (last ${weeks.length}, ${(total / weeks.length).toFixed(1)} on average):`,
+      ...weeks.map((w) => `- week of ${w.week}: ${w.decisions}`),
+    );
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,160 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { loadConfig } from './config.js';
+import {
+  appendEventLines,
+  type InvalidRecord,
+  loadProjectEvents,
+  parseEventFile,
+  readEventFile,
+} from './event-log.js';
+import { withLock } from './file-lock.js';
+import { getProjectRoot } from './project-slug.js';
+import type { LogEvent } from './types.js';
+
+// Project-local mode: decisions live in the repository under
+// `.decision-log/decisions/`, one append-only JSONL file per decision, so
+// teams review them in PRs and merges only conflict when two people change
+// the same decision. Problems, sessions and search statistics stay in the
+// home directory.
+
+export const REPO_STORE_DIR = '.decision-log';
+
+export type DecisionEvent = Extract<
+  LogEvent,
+  {
+    type:
+      | 'decision_logged'
+      | 'decision_revised'
+      | 'decision_superseded'
+      | 'decision_deprecated'
+      | 'decision_deleted';
+  }
+>;
+
+/**
+ * The repository's decision store, or null when decisions are kept in the
+ * home directory. With `DECISION_LOG_STORE=auto` (the default) a committed
+ * `.decision-log/` directory switches it on; with `repo` it is used before
+ * it exists, and `createRepoStore` makes it on the first write.
+ */
+export function findRepoStore(
+  cwd: string,
+  store = loadConfig().store,
+): string | null {
+  if (store === 'home') return null;
+  const dir = path.join(getProjectRoot(cwd), REPO_STORE_DIR);
+  if (store === 'repo') return dir;
+  return fs.existsSync(dir) ? dir : null;
+}
+
+/** Create the store, with its merge driver, unless it already exists. */
+export function createRepoStore(storeDir: string): void {
+  fs.mkdirSync(path.join(storeDir, 'decisions'), { recursive: true });
+  const attributes = path.join(storeDir, '.gitattributes');
+  if (!fs.existsSync(attributes)) {
+    // Concurrent changes to one decision are both kept; replay orders them
+    fs.writeFileSync(attributes, 'decisions/*.jsonl merge=union\n');
+  }
+}
+
+export function isDecisionEvent(e: LogEvent): e is DecisionEvent {
+  return (
+    e.type === 'decision_logged' ||
+    e.type === 'decision_revised' ||
+    e.type === 'decision_superseded' ||
+    e.type === 'decision_deprecated' ||
+    e.type === 'decision_deleted'
+  );
+}
+
+function decisionIdOf(e: DecisionEvent): string {
+  return e.type === 'decision_logged' ? e.decision.id : e.decision_id;
+}
+
+function decisionFile(storeDir: string, e: DecisionEvent): string {
+  return path.join(storeDir, 'decisions', `${decisionIdOf(e)}.jsonl`);
+}
+
+/**
+ * The decision events that belong in the repository. Decisions logged
+ * before the store was enabled live in the home log, so their revisions,
+ * supersessions and deletions are kept there with them.
+ */
+export function repoBoundEvents(
+  projectDir: string,
+  events: LogEvent[],
+): DecisionEvent[] {
+  const decisionEvents = events.filter(isDecisionEvent);
+  if (decisionEvents.every((e) => e.type === 'decision_logged')) {
+    return decisionEvents;
+  }
+  const homeOnly = new Set(
+    loadProjectEvents(projectDir).flatMap((e) =>
+      e.type === 'decision_logged' ? [e.decision.id] : [],
+    ),
+  );
+  return decisionEvents.filter((e) => !homeOnly.has(decisionIdOf(e)));
+}
+
+function decisionFiles(storeDir: string): string[] {
+  try {
+    return fs
+      .readdirSync(path.join(storeDir, 'decisions'))
+      .filter((f) => f.endsWith('.jsonl'))
+      .sort()
+      .map((f) => path.join(storeDir, 'decisions', f));
+  } catch {
+    return [];
+  }
+}
+
+/** Append decision events to their decisions' files. */
+export function appendRepoEvents(
+  storeDir: string,
+  events: DecisionEvent[],
+): void {
+  const byFile = new Map<string, DecisionEvent[]>();
+  for (const e of events) {
+    const file = decisionFile(storeDir, e);
+    byFile.set(file, [...(byFile.get(file) ?? []), e]);
+  }
+  fs.mkdirSync(path.join(storeDir, 'decisions'), { recursive: true });
+  for (const [file, fileEvents] of byFile) {
+    withLock(file, () => appendEventLines(file, fileEvents));
+  }
+}
+
+function readRepoEvents(storeDir: string): LogEvent[] {
+  return decisionFiles(storeDir).flatMap(readEventFile);
+}
+
+/** Lines in the decision files that don't fit the event schema. */
+export function invalidRepoRecords(storeDir: string): InvalidRecord[] {
+  return decisionFiles(storeDir).flatMap((f) => parseEventFile(f).invalid);
+}
+
+/**
+ * The home event log merged with the repository's decisions, in time order.
+ * Without a repo store this is just `loadProjectEvents`.
+ */
+export function loadStoreEvents(
+  projectDir: string,
+  storeDir: string | null,
+): LogEvent[] {
+  const home = loadProjectEvents(projectDir);
+  if (!storeDir) return home;
+  return [...home, ...readRepoEvents(storeDir)].sort((a, b) =>
+    a.at.localeCompare(b.at),
+  );
+}
+
+/** Changes whenever any decision file does; used to invalidate caches. */
+export function repoStoreSignature(storeDir: string): string {
+  return decisionFiles(storeDir)
+    .map((file) => {
+      const stat = fs.statSync(file, { throwIfNoEntry: false });
+      return `${path.basename(file)}:${stat?.size}:${stat?.mtimeMs}`;
+    })
+    .join('|');
+}
@@ -0,0 +1,205 @@
+// Local full-text search: tokenization with light stemming, BM25F-style
+// scoring over weighted fields, and a small query language:
+//
+//   auth token            any of the words, ranked by relevance
+//   "token refresh"       exact phrase, required
+//   -jwt  -"session id"   exclude documents containing the word or phrase
+
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'to',
+  'was',
+  'we',
+  'with',
+]);
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const PHRASE_BONUS = 1.5;
+
+/**
+ * Strip common English suffixes so "refreshing", "refreshed" and "refreshes"
+ * all become "refresh". Deliberately simpler than Porter: it only has to be
+ * consistent between queries and documents.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+  let w = word;
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith('s') && !w.endsWith('ss') && !w.endsWith('us')) {
+    w = w.slice(0, -1);
+  }
+
+  const derivational = ['ational', 'ization', 'ation', 'ness', 'ment'].find(
+    (suffix) => w.endsWith(suffix) && w.length - suffix.length >= 3,
+  );
+  if (derivational) {
+    w = w.slice(0, -derivational.length);
+  } else {
+    const inflectional = ['ing', 'ed', 'ly', 'er'].find(
+      (suffix) => w.endsWith(suffix) && w.length - suffix.length >= 3,
+    );
+    if (inflectional) {
+      w = w.slice(0, -inflectional.length);
+      // "stopped" → "stopp" → "stop"
+      const last = w.at(-1) ?? '';
+      if (last === w.at(-2) && !'lsz'.includes(last)) w = w.slice(0, -1);
+    }
+  }
+  // "cache", "cached" and "caching" all end up as "cach"
+  if (w.length > 3 && w.endsWith('e')) w = w.slice(0, -1);
+  return w;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Lowercased, stemmed tokens in order, stopwords included. */
+export function tokenize(text: string): string[] {
+  return words(text).map(stem);
+}
+
+/** The distinct stemmed tokens of `text` that carry meaning. */
+export function keywords(text: string): Set<string> {
+  return new Set(tokenize(text).filter((t) => !STOPWORDS.has(t)));
+}
+
+/** How much two keyword sets overlap, from 0 (nothing shared) to 1. */
+export function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter((w) => b.has(w)).length;
+  return (2 * shared) / (a.size + b.size);
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+  excludedTerms: string[];
+  excludedPhrases: string[][];
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+  };
+  const pattern = /(-?)"([^"]*)"?|(-?)(\S+)/g;
+  for (const m of query.matchAll(pattern)) {
+    const negated = (m[1] || m[3]) === '-';
+    if (m[2] !== undefined) {
+      const phrase = tokenize(m[2]);
+      if (phrase.length === 0) continue;
+      if (negated) parsed.excludedPhrases.push(phrase);
+      else parsed.phrases.push(phrase);
+      continue;
+    }
+    const tokens = tokenize(m[4]);
+    if (negated) parsed.excludedTerms.push(...tokens);
+    else parsed.terms.push(...tokens);
+  }
+  // Drop stopwords unless that would leave nothing to search for
+  const meaningful = parsed.terms.filter((t) => !STOPWORDS.has(t));
+  if (meaningful.length > 0 || parsed.phrases.length > 0) {
+    parsed.terms = meaningful;
+  }
+  return parsed;
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  outer: for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    for (let j = 0; j < phrase.length; j++) {
+      if (tokens[i + j] !== phrase[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+export interface SearchField<T> {
+  weight: number;
+  text: (item: T) => string;
+}
+
+export interface Ranked<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * Score `items` against `query` and return the matches, best first. Ties
+ * keep the input order. An empty query matches everything with score 0.
+ */
+export function rank<T>(
+  items: T[],
+  query: string,
+  fields: SearchField<T>[],
+): Ranked<T>[] {
+  const q = parseQuery(query);
+  const docs = items.map((item) => fields.map((f) => tokenize(f.text(item))));
+
+  const avgLen = fields.map((_, fi) => {
+    const total = docs.reduce((sum, d) => sum + d[fi].length, 0);
+    return docs.length > 0 ? total / docs.length || 1 : 1;
+  });
+
+  const queryTerms = [...new Set([...q.terms, ...q.phrases.flat()])];
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = docs.filter((d) => d.some((f) => f.includes(term))).length;
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+  }
+
+  const results: Ranked<T>[] = [];
+  docs.forEach((doc, i) => {
+    const all = doc.flat();
+    if (q.excludedTerms.some((t) => all.includes(t))) return;
+    if (q.excludedPhrases.some((p) => doc.some((f) => containsPhrase(f, p)))) {
+      return;
+    }
+    if (!q.phrases.every((p) => doc.some((f) => containsPhrase(f, p)))) {
+      return;
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      let tf = 0;
+      fields.forEach((field, fi) => {
+        const count = doc[fi].filter((t) => t === term).length;
+        if (count === 0) return;
+        const norm = 1 - B + (B * doc[fi].length) / avgLen[fi];
+        tf += (field.weight * count) / norm;
+      });
+      if (tf > 0) score += (idf.get(term) ?? 0) * (tf / (K1 + tf));
+    }
+    score += q.phrases.length * PHRASE_BONUS;
+
+    const hasPositive = q.terms.length > 0 || q.phrases.length > 0;
+    if (hasPositive && score === 0) return;
+    results.push({ item: items[i], score });
+  });
+
+  // Array#sort is stable, so equal scores keep input order
+  return results.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,164 @@
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { writeFileAtomic } from './file-lock.js';
+import { schemaError } from './types.js';
+
+// The SessionStart hook knows Claude Code's session_id but the MCP server
+// doesn't. The hook drops a handoff file under the project directory and the
+// server claims it, matching on the Claude Code process itself so that two
+// Claude sessions in the same project each pick up their own — even when
+// they were started from the same shell or tmux server.
+
+const SessionHandoffSchema = z.object({
+  session_id: z.string(),
+  cwd: z.string(),
+  source: z.string().optional(),
+  created_at: z.string(),
+  claude_pids: z.array(z.number()),
+});
+
+export type SessionHandoff = z.infer<typeof SessionHandoffSchema>;
+
+// Claude Code runs a hook command either directly or under `sh -c`, so the
+// hook's parent or grandparent is Claude.
+const HOOK_DEPTH = 2;
+// The server may also be started through a launcher such as `npx` or
+// `sh -c`, putting Claude a level or two further up.
+const SERVER_DEPTH = 3;
+const STALE_MS = 24 * 60 * 60 * 1000;
+
+function parentPid(pid: number): number | null {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    // Fields after the parenthesized command name: state, ppid, ...
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    return Number(fields[1]) || null;
+  } catch {
+    // no procfs (macOS)
+  }
+  try {
+    const out = execFileSync('ps', ['-o', 'ppid=', '-p', String(pid)], {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }).trim();
+    return Number(out) || null;
+  } catch {
+    return null;
+  }
+}
+
+/** This process's parent, grandparent and so on, nearest first. */
+function ancestorPids(depth: number): number[] {
+  const pids: number[] = [];
+  let pid: number | null = process.ppid;
+  while (pid && pid > 1 && pids.length < depth) {
+    pids.push(pid);
+    pid = parentPid(pid);
+  }
+  return pids;
+}
+
+/** The processes a hook may have been started by; one is Claude Code. */
+export function hookClaudePids(): number[] {
+  return ancestorPids(HOOK_DEPTH);
+}
+
+function handoffDir(projectDir: string): string {
+  return path.join(projectDir, 'handoffs');
+}
+
+export function writeSessionHandoff(
+  projectDir: string,
+  handoff: SessionHandoff,
+): void {
+  const dir = handoffDir(projectDir);
+  fs.mkdirSync(dir, { recursive: true });
+  writeFileAtomic(
+    path.join(dir, `${handoff.session_id}.json`),
+    JSON.stringify(handoff, null, 2),
+  );
+}
+
+function readHandoffs(
+  dir: string,
+): Array<{ file: string; handoff: SessionHandoff }> {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+  const now = Date.now();
+  const handoffs: Array<{ file: string; handoff: SessionHandoff }> = [];
+  for (const name of entries) {
+    if (!name.endsWith('.json')) continue;
+    const file = path.join(dir, name);
+    try {
+      const handoff = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (schemaError(SessionHandoffSchema, handoff)) {
+        // not a handoff this version understands
+        fs.rmSync(file, { force: true });
+        continue;
+      }
+      if (now - Date.parse(handoff.created_at) > STALE_MS) {
+        fs.rmSync(file, { force: true });
+        continue;
+      }
+      handoffs.push({ file, handoff });
+    } catch {
+      // being written or already claimed
+    }
+  }
+  return handoffs;
+}
+
+/**
+ * Claim the handoff written for this process's Claude session: the one whose
+ * hook ran under the nearest of the server's own ancestors (`ancestors`,
+ * by default its first few). When none match and `fallbackSince` is given,
+ * a handoff written after that time is taken only if it is the only one, as
+ * guessing between several could adopt another session's. Claiming deletes
+ * the file, so each handoff is adopted by at most one server.
+ */
+export function claimSessionHandoff(
+  projectDir: string,
+  options: { fallbackSince?: number; ancestors?: number[] } = {},
+): SessionHandoff | null {
+  const ancestors = options.ancestors ?? ancestorPids(SERVER_DEPTH);
+  const candidates = readHandoffs(handoffDir(projectDir));
+
+  let best: { file: string; handoff: SessionHandoff; depth: number } | null =
+    null;
+  for (const c of candidates) {
+    const depth = ancestors.findIndex((pid) =>
+      c.handoff.claude_pids.includes(pid),
+    );
+    if (depth === -1) continue;
+    if (
+      !best ||
+      depth < best.depth ||
+      (depth === best.depth && c.handoff.created_at > best.handoff.created_at)
+    ) {
+      best = { ...c, depth };
+    }
+  }
+  let claimed: { file: string; handoff: SessionHandoff } | null = best;
+  const since = options.fallbackSince;
+  if (!claimed && since !== undefined) {
+    const recent = candidates.filter(
+      (c) => Date.parse(c.handoff.created_at) >= since,
+    );
+    if (recent.length === 1) claimed = recent[0];
+  }
+  if (!claimed) return null;
+
+  try {
+    fs.rmSync(claimed.file);
+  } catch {
+    // another server claimed it first
+    return null;
+  }
+  return claimed.handoff;
+}
@@ -0,0 +1,160 @@
+import type { Lookup } from './short-id.js';
+import type { Decision, Problem, SessionMetadata } from './types.js';
+
+// A retrospective of one session, for a standup or a PR description: what
+// was decided, which problems were opened and how long the resolved ones
+// took, what failed along the way and what is still open.
+
+export interface SessionReport {
+  session_id: string;
+  started_at: string | null;
+  /** When the session ended, or its last activity if it didn't say. */
+  ended_at: string | null;
+  last_activity_at: string | null;
+  git_branch: string | null;
+  decisions: Decision[];
+  resolved: Problem[];
+  unresolved: Problem[];
+  failedApproaches: number;
+}
+
+/** The session `ref` names: its full ID, or a unique prefix of it. */
+export function findSession(
+  sessions: SessionMetadata[],
+  ref: string,
+): Lookup<SessionMetadata> {
+  const r = ref.trim();
+  const exact = sessions.filter((s) => s.session_id === r);
+  const found =
+    exact.length > 0 || !r
+      ? exact
+      : sessions.filter((s) => s.session_id.startsWith(r));
+  return { match: found.length === 1 ? found[0] : null, candidates: found };
+}
+
+/** `45m`, `2h 5m`, `3d 4h`; `<1m` for anything shorter. */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return '<1m';
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  const rest = minutes % 60;
+  if (hours > 0) return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+  return `${minutes}m`;
+}
+
+function failed(p: Problem): number {
+  return p.approaches.filter((a) => a.outcome === 'failed').length;
+}
+
+/** The latest moment anything in the session was recorded. */
+function lastRecorded(
+  decisions: Decision[],
+  problems: Problem[],
+): string | null {
+  const times = [
+    ...decisions.flatMap((d) => [d.timestamp, d.revised_at ?? '']),
+    ...problems.flatMap((p) => [
+      p.created_at,
+      p.resolved_at ?? '',
+      ...p.approaches.map((a) => a.timestamp),
+    ]),
+  ].filter(Boolean);
+  return times.sort().at(-1) ?? null;
+}
+
+/**
+ * Gather the report for `sessionId` from the project's decisions and
+ * problems. Problems belong to the session they were last resumed into.
+ */
+export function buildSessionReport(
+  sessionId: string,
+  meta: SessionMetadata | null,
+  state: { decisions: Decision[]; problems: Problem[] },
+): SessionReport {
+  const decisions = state.decisions.filter((d) => d.session_id === sessionId);
+  const problems = state.problems.filter((p) => p.session_id === sessionId);
+  const lastActivity =
+    meta?.last_activity_at ?? lastRecorded(decisions, problems);
+  return {
+    session_id: sessionId,
+    started_at: meta?.started_at ?? null,
+    ended_at: meta?.ended_at ?? lastActivity,
+    last_activity_at: lastActivity,
+    git_branch: meta?.git_branch ?? null,
+    decisions,
+    resolved: problems.filter((p) => p.status === 'resolved'),
+    unresolved: problems.filter((p) => p.status === 'open'),
+    failedApproaches: problems.reduce((n, p) => n + failed(p), 0),
+  };
+}
+
+function ref(x: Decision | Problem): string {
+  return x.short_id ?? x.id;
+}
+
+function timeToResolution(p: Problem): string {
+  if (!p.resolved_at) return '';
+  const ms = Date.parse(p.resolved_at) - Date.parse(p.created_at);
+  return Number.isNaN(ms) ? '' : ` in ${formatDuration(ms)}`;
+}
+
+function attempts(p: Problem): string {
+  const n = p.approaches.length;
+  return `${n} approach${n === 1 ? '' : 'es'}, ${failed(p)} failed`;
+}
+
+function decisionItem(d: Decision): string {
+  const others = d.options.map((o) => o.name).filter((n) => n !== d.chosen);
+  const over = others.length > 0 ? ` over ${others.join(', ')}` : '';
+  const status = d.status === 'active' ? '' : ` _(${d.status})_`;
+  return `- **${ref(d)} ${d.topic}**: chose ${d.chosen}${over} — ${d.rationale}${status}`;
+}
+
+function resolvedItem(p: Problem): string {
+  return `- **${ref(p)} ${p.problem}** — resolved${timeToResolution(p)} (${attempts(p)}): ${p.resolution}`;
+}
+
+function unresolvedItem(p: Problem): string {
+  const last = p.approaches.at(-1);
+  const tried = last
+    ? `; last tried: ${last.approach} (${last.outcome.replace('_', ' ')})`
+    : '';
+  return `- **${ref(p)} ${p.problem}** — ${attempts(p)}${tried}`;
+}
+
+export function renderSessionReport(r: SessionReport): string {
+  const when = [
+    r.started_at?.slice(0, 16).replace('T', ' '),
+    r.ended_at?.slice(0, 16).replace('T', ' '),
+  ];
+  const span =
+    when[0] && when[1] ? `${when[0]} – ${when[1]}` : (when[0] ?? when[1]);
+  const duration =
+    r.started_at && r.ended_at
+      ? ` (${formatDuration(Date.parse(r.ended_at) - Date.parse(r.started_at))})`
+      : '';
+  const header = [
+    span ? `${span}${duration}` : null,
+    r.git_branch ? `branch \`${r.git_branch}\`` : null,
+  ].filter(Boolean);
+
+  const opened = r.resolved.length + r.unresolved.length;
+  const lines = [
+    `# Session ${r.session_id}`,
+    '',
+    ...(header.length > 0 ? [header.join(' · '), ''] : []),
+    `${r.decisions.length} decision(s); ${opened} problem(s), ${r.resolved.length} resolved and ${r.unresolved.length} still open; ${r.failedApproaches} failed approach(es).`,
+  ];
+  if (r.decisions.length > 0) {
+    lines.push('', '## Decisions', '', ...r.decisions.map(decisionItem));
+  }
+  if (r.resolved.length > 0) {
+    lines.push('', '## Resolved', '', ...r.resolved.map(resolvedItem));
+  }
+  if (r.unresolved.length > 0) {
+    lines.push('', '## Unresolved', '', ...r.unresolved.map(unresolvedItem));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,53 @@
+// Short, per-project sequential IDs (`D-47` for decisions, `P-12` for
+// problems) that survive being retyped after compaction. The UUID stays the
+// primary key; anything that takes an ID also accepts the short form, a bare
+// number, or a unique prefix of the UUID.
+
+export type ShortIdKind = 'D' | 'P';
+
+export function formatShortId(kind: ShortIdKind, n: number): string {
+  return `${kind}-${n}`;
+}
+
+/** The number in a short ID, or 0 for anything else. */
+export function shortIdNumber(shortId: string | undefined): number {
+  const m = shortId?.match(/^[DP]-(\d+)$/);
+  return m ? Number(m[1]) : 0;
+}
+
+export interface Identified {
+  id: string;
+  short_id?: string;
+}
+
+/**
+ * What an ID reference resolved to: a single `match`, or the `candidates`
+ * it could mean — several when it's ambiguous, none when nothing fits.
+ */
+export interface Lookup<T> {
+  match: T | null;
+  candidates: T[];
+}
+
+function settle<T>(found: T[]): Lookup<T> | null {
+  if (found.length === 0) return null;
+  return { match: found.length === 1 ? found[0] : null, candidates: found };
+}
+
+export function resolveId<T extends Identified>(
+  items: T[],
+  ref: string,
+  kind: ShortIdKind,
+): Lookup<T> {
+  const r = ref.trim();
+  const none: Lookup<T> = { match: null, candidates: [] };
+  if (!r) return none;
+
+  const exact = items.filter((i) => i.id === r);
+  const numbered = r.match(new RegExp(`^(?:${kind}-?|#)?(\\d+)$`, 'i'));
+  const byNumber = numbered
+    ? items.filter((i) => shortIdNumber(i.short_id) === Number(numbered[1]))
+    : [];
+  const prefix = items.filter((i) => i.id.startsWith(r.toLowerCase()));
+  return settle(exact) ?? settle(byNumber) ?? settle(prefix) ?? none;
+}
@@ -1,113 +1,689 @@
+import { randomUUID } from 'node:crypto';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { getProjectSlug, STORAGE_ROOT } from './project-slug.js';
-import type { Decision, Problem, SessionMetadata } from './types.js';
+import { linkedPaths } from './code-links.js';
+import {
+  appendEventLines,
+  eventsPath,
+  type ProjectState,
+  replay,
+} from './event-log.js';
+import {
+  inspectJsonFile,
+  readJsonFile,
+  withLock,
+  writeFileAtomic,
+} from './file-lock.js';
+import { checkStore, migrateStore, type StoreReport } from './migrations.js';
+import {
+  getCurrentBranch,
+  getProjectSlug,
+  STORAGE_ROOT,
+} from './project-slug.js';
+import {
+  appendRepoEvents,
+  createRepoStore,
+  findRepoStore,
+  loadStoreEvents,
+  repoBoundEvents,
+  repoStoreSignature,
+} from './repo-store.js';
+import { rank, type SearchField } from './search.js';
+import { claimSessionHandoff } from './session-handoff.js';
+import { formatShortId, type Lookup, resolveId } from './short-id.js';
+import {
+  type Approach,
+  type Decision,
+  type DecisionRevision,
+  type LogEvent,
+  type Problem,
+  ReferenceCountsSchema,
+  type SessionMetadata,
+  SessionMetadataSchema,
+  schemaError,
+} from './types.js';
+
+// Topic matters most, then what was chosen, then why, then the alternatives.
+const DECISION_FIELDS: SearchField<Decision>[] = [
+  { weight: 4, text: (d) => d.topic },
+  { weight: 3, text: (d) => d.chosen },
+  { weight: 2, text: (d) => d.tags.join(' ') },
+  { weight: 2, text: (d) => d.rationale },
+  {
+    weight: 1,
+    text: (d) => d.options.map((o) => `${o.name} ${o.description}`).join(' '),
+  },
+  { weight: 1, text: (d) => (d.symbols ?? []).join(' ') },
+];
+
+export interface DecisionQuery {
+  query?: string;
+  tags?: string[];
+  /** How `tags` must match: at least one (default), every one, or none. */
+  tagMode?: 'any' | 'all' | 'none';
+  /** ISO timestamps; a bare date for `until` includes that whole day. */
+  since?: string;
+  until?: string;
+  sessionId?: string;
+  /**
+   * Only decisions linked to this root-relative path or a directory
+   * containing it.
+   */
+  path?: string;
+  includeInactive?: boolean;
+  sort?: 'relevance' | 'newest' | 'oldest';
+  limit?: number;
+  offset?: number;
+}
+
+export interface DecisionPage {
+  decisions: Decision[];
+  total: number;
+}
+
+function timeBound(value: string, edge: 'start' | 'end'): number {
+  if (edge === 'end' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return Date.parse(`${value}T23:59:59.999Z`);
+  }
+  return Date.parse(value);
+}
+
+const PROBLEM_FIELDS: SearchField<Problem>[] = [
+  { weight: 4, text: (p) => p.problem },
+  { weight: 3, text: (p) => p.resolution ?? '' },
+  { weight: 2, text: (p) => p.approaches.map((a) => a.approach).join(' ') },
+  {
+    weight: 2,
+    text: (p) => p.approaches.map((a) => a.error_signature ?? '').join(' '),
+  },
+  {
+    weight: 1,
+    text: (p) =>
+      p.approaches.map((a) => `${a.details} ${a.hypothesis ?? ''}`).join(' '),
+  },
+];
+
+export interface ProblemQuery {
+  query?: string;
+  status?: Problem['status'];
+  /** Only problems with at least one approach that had this outcome. */
+  outcome?: Approach['outcome'];
+  sessionId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ProblemPage {
+  problems: Problem[];
+  total: number;
+}
+
+// How far before server start a handoff may have been written and still be
+// adopted without an ancestor-process match.
+const HANDOFF_GRACE_MS = 60_000;
 
 export class Storage {
+  private cwd: string;
   private projectSlug: string;
   private sessionId: string;
   private projectDir: string;
-  private sessionDir: string;
+  private startedAt = Date.now();
+  // True until the session id comes from Claude Code rather than randomUUID.
+  private provisional: boolean;
+  // Repository `.decision-log/` directory when decisions are shared there
+  private repoStore: string | null;
+  // Pinned to `sessionId` without following Claude Code sessions (the CLI)
+  private detached: boolean;
+  private eventCache: { key: string; events: LogEvent[] } | null = null;
 
-  constructor(cwd: string, sessionId: string) {
+  /**
+   * With `detached`, the log is recorded under `sessionId` as given, which
+   * is only created on the first write, and SessionStart handoffs are left
+   * for the MCP server they were meant for.
+   */
+  constructor(
+    cwd: string,
+    sessionId?: string,
+    { detached = false }: { detached?: boolean } = {},
+  ) {
+    this.cwd = cwd;
     this.projectSlug = getProjectSlug(cwd);
-    this.sessionId = sessionId;
     this.projectDir = path.join(STORAGE_ROOT, this.projectSlug);
-    this.sessionDir = path.join(this.projectDir, 'sessions', this.sessionId);
-    this.ensureDirs();
-    this.writeMetadata(cwd);
+    fs.mkdirSync(this.projectDir, { recursive: true });
+    this.repoStore = findRepoStore(cwd);
+    this.detached = detached;
+
+    const handoff =
+      sessionId || detached
+        ? null
+        : claimSessionHandoff(this.projectDir, {
+            fallbackSince: this.startedAt - HANDOFF_GRACE_MS,
+          });
+    this.sessionId = sessionId ?? handoff?.session_id ?? randomUUID();
+    this.provisional = !sessionId && !handoff;
+    if (!this.provisional && !detached) this.openSession();
   }
 
-  private ensureDirs(): void {
-    fs.mkdirSync(this.sessionDir, { recursive: true });
+  /** The directory the log was opened from — normally the project root. */
+  getCwd(): string {
+    return this.cwd;
   }
 
-  private writeMetadata(cwd: string): void {
-    const metaPath = path.join(this.sessionDir, 'metadata.json');
-    if (fs.existsSync(metaPath)) return;
+  /**
+   * The Claude Code session this server is recording into. Picks up a
+   * pending SessionStart handoff first, so a `/clear` or a late hook moves
+   * subsequent writes to the right session.
+   */
+  getSessionId(): string {
+    this.syncSession();
+    return this.sessionId;
+  }
+
+  private syncSession(): void {
+    if (this.detached) return;
+    const handoff = claimSessionHandoff(
+      this.projectDir,
+      this.provisional
+        ? { fallbackSince: this.startedAt - HANDOFF_GRACE_MS }
+        : {},
+    );
+    if (!handoff) return;
+    this.provisional = false;
+    if (handoff.session_id === this.sessionId) return;
+    this.sessionId = handoff.session_id;
+    this.openSession();
+  }
+
+  private sessionDir(): string {
+    return path.join(this.projectDir, 'sessions', this.sessionId);
+  }
+
+  /**
+   * Create the session directory, or reopen an existing one after
+   * `claude --resume` and record when it was resumed.
+   */
+  private openSession(): void {
+    const dir = path.join(this.projectDir, 'sessions', this.sessionId);
+    const metaPath = path.join(dir, 'metadata.json');
+    const branch = getCurrentBranch(this.cwd);
+    if (fs.existsSync(metaPath)) {
+      this.updateSession({
+        resumed_at: new Date().toISOString(),
+        ...(branch && { git_branch: branch }),
+      });
+      return;
+    }
+    fs.mkdirSync(dir, { recursive: true });
     const meta: SessionMetadata = {
       session_id: this.sessionId,
       project_slug: this.projectSlug,
-      cwd,
+      cwd: this.cwd,
       started_at: new Date().toISOString(),
+      ...(branch && { git_branch: branch }),
     };
-    fs.writeFileSync(metaPath, JSON.stringify(meta, null, 2));
+    writeFileAtomic(metaPath, JSON.stringify(meta, null, 2));
   }
 
-  // --- Decisions (project-level) ---
+  /** Change the current session's metadata, if it has any. */
+  private updateSession(changes: Partial<SessionMetadata>): void {
+    const metaPath = path.join(this.sessionDir(), 'metadata.json');
+    try {
+      const meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+      if (!schemaError(SessionMetadataSchema, meta)) {
+        writeFileAtomic(
+          metaPath,
+          JSON.stringify({ ...meta, ...changes }, null, 2),
+        );
+      }
+    } catch {
+      // no session yet, or unreadable metadata left alone
+    }
+  }
 
-  private decisionsPath(): string {
-    return path.join(this.projectDir, 'decisions.json');
+  /** Record that Claude Code ended the session. */
+  endSession(): void {
+    this.updateSession({ ended_at: new Date().toISOString() });
   }
 
-  readDecisions(): Decision[] {
+  // Provisional sessions are only materialized once something is written.
+  private ensureSession(): void {
+    const metaPath = path.join(this.sessionDir(), 'metadata.json');
+    if (!fs.existsSync(metaPath)) this.openSession();
+  }
+
+  // --- Event log ---
+
+  // The home event file's lock also guards short ID numbering, so repo
+  // store appends happen under it too.
+  private append(...events: LogEvent[]): void {
+    const repoStore = this.repoStore;
+    const file = eventsPath(this.projectDir);
+    withLock(file, () => {
+      if (repoStore) createRepoStore(repoStore);
+      migrateStore(this.projectDir, repoStore);
+      this.assignShortIds(events);
+      const shared = repoStore ? repoBoundEvents(this.projectDir, events) : [];
+      const bound = new Set<LogEvent>(shared);
+      const local = events.filter((e) => !bound.has(e));
+      if (repoStore && shared.length > 0) appendRepoEvents(repoStore, shared);
+      if (local.length > 0) appendEventLines(file, local);
+    });
+    this.updateSession({ last_activity_at: new Date().toISOString() });
+  }
+
+  // Decisions in a repository store are numbered by each checkout: their
+  // short IDs go in the home log rather than the shared files, and a
+  // teammate's decision keeps the number it was first shown with.
+  private assignShortIds(events: LogEvent[]): void {
+    const needsId = events.some(
+      (e) =>
+        (e.type === 'decision_logged' && !e.decision.short_id) ||
+        (e.type === 'problem_opened' && !e.problem.short_id),
+    );
+    if (!needsId && !this.repoStore) return;
+    const state = this.snapshot();
+    const last = { ...state.lastShortId };
+    const assigned = this.repoStore ? { ...state.unrecordedShortIds } : {};
+    for (const e of events) {
+      if (e.type === 'decision_logged' && !e.decision.short_id) {
+        const shortId = formatShortId('D', ++last.D);
+        if (this.repoStore) assigned[e.decision.id] = shortId;
+        else e.decision.short_id = shortId;
+      } else if (e.type === 'problem_opened' && !e.problem.short_id) {
+        e.problem.short_id = formatShortId('P', ++last.P);
+      }
+    }
+    if (Object.keys(assigned).length > 0) {
+      events.push({
+        type: 'short_ids_assigned',
+        at: new Date().toISOString(),
+        session_id: this.sessionId,
+        short_ids: assigned,
+      });
+    }
+  }
+
+  private events(): LogEvent[] {
+    const file = eventsPath(this.projectDir);
+    let stat: fs.Stats | null = null;
     try {
-      return JSON.parse(fs.readFileSync(this.decisionsPath(), 'utf-8'));
+      stat = fs.statSync(file);
     } catch {
-      return [];
+      // nothing appended yet
     }
+    const key = [
+      stat ? `${stat.size}:${stat.mtimeMs}` : '',
+      this.repoStore ? repoStoreSignature(this.repoStore) : '',
+    ].join('|');
+    if (this.eventCache?.key === key) return this.eventCache.events;
+    const events = loadStoreEvents(this.projectDir, this.repoStore);
+    this.eventCache = key !== '|' ? { key, events } : null;
+    return events;
   }
 
-  addDecision(decision: Decision): void {
-    const decisions = this.readDecisions();
-    decisions.push(decision);
-    fs.writeFileSync(this.decisionsPath(), JSON.stringify(decisions, null, 2));
-  }
-
-  searchDecisions(query?: string, tags?: string[]): Decision[] {
-    const decisions = this.readDecisions();
-    return decisions.filter((d) => {
-      if (query) {
-        const q = query.toLowerCase();
-        const matches =
-          d.topic.toLowerCase().includes(q) ||
-          d.chosen.toLowerCase().includes(q) ||
-          d.rationale.toLowerCase().includes(q) ||
-          d.options.some(
-            (o) =>
-              o.name.toLowerCase().includes(q) ||
-              o.description.toLowerCase().includes(q),
-          );
-        if (!matches) return false;
+  /**
+   * Replay the whole project. With `asOf` (ISO timestamp), returns the
+   * decisions and problems as they stood at that moment.
+   */
+  snapshot(asOf?: string): ProjectState {
+    const state = replay(this.events(), asOf);
+    if (!asOf) {
+      const read = inspectJsonFile(
+        this.referencesPath(),
+        ReferenceCountsSchema,
+      );
+      const counts = read && 'value' in read ? read.value : {};
+      for (const d of state.decisions) {
+        if (counts[d.id]) {
+          d.reference_count = (d.reference_count ?? 0) + counts[d.id];
+        }
       }
-      if (tags && tags.length > 0) {
-        if (!tags.some((t) => d.tags.includes(t))) return false;
+    }
+    return state;
+  }
+
+  // --- Decisions (project-level) ---
+
+  readDecisions(): Decision[] {
+    return this.snapshot().decisions;
+  }
+
+  /** Log a decision; returns it as stored, with its short ID. */
+  addDecision(decision: Decision): Decision | null {
+    this.syncSession();
+    this.ensureSession();
+    this.append({
+      type: 'decision_logged',
+      at: decision.timestamp,
+      session_id: decision.session_id,
+      decision: { ...decision },
+    });
+    return this.getDecision(decision.id);
+  }
+
+  /** Log several decisions at once, e.g. from an ADR import. */
+  importDecisions(decisions: Decision[]): void {
+    if (decisions.length === 0) return;
+    this.syncSession();
+    this.ensureSession();
+    this.append(
+      ...decisions.map(
+        (decision): LogEvent => ({
+          type: 'decision_logged',
+          at: decision.timestamp,
+          session_id: decision.session_id,
+          decision: { ...decision },
+        }),
+      ),
+    );
+  }
+
+  getDecision(id: string): Decision | null {
+    return this.readDecisions().find((d) => d.id === id) ?? null;
+  }
+
+  /** Resolve a full, short (`D-47`) or prefix ID to a decision. */
+  lookupDecision(ref: string): Lookup<Decision> {
+    return resolveId(this.readDecisions(), ref, 'D');
+  }
+
+  reviseDecision(id: string, changes: DecisionRevision): Decision | null {
+    if (!this.getDecision(id)) return null;
+    this.append({
+      type: 'decision_revised',
+      at: new Date().toISOString(),
+      session_id: this.getSessionId(),
+      decision_id: id,
+      changes,
+    });
+    return this.getDecision(id);
+  }
+
+  /**
+   * Log `replacement` and mark the decision `id` as superseded by it, in one
+   * append so readers never see one without the other.
+   */
+  supersedeDecision(id: string, replacement: Decision): Decision | null {
+    if (!this.getDecision(id)) return null;
+    this.syncSession();
+    this.ensureSession();
+    this.append(
+      {
+        type: 'decision_logged',
+        at: replacement.timestamp,
+        session_id: replacement.session_id,
+        decision: { ...replacement, supersedes: id },
+      },
+      {
+        type: 'decision_superseded',
+        at: replacement.timestamp,
+        session_id: replacement.session_id,
+        decision_id: id,
+        superseded_by: replacement.id,
+      },
+    );
+    return this.getDecision(id);
+  }
+
+  deprecateDecision(id: string, reason: string): Decision | null {
+    if (!this.getDecision(id)) return null;
+    this.append({
+      type: 'decision_deprecated',
+      at: new Date().toISOString(),
+      session_id: this.getSessionId(),
+      decision_id: id,
+      reason,
+    });
+    return this.getDecision(id);
+  }
+
+  private referencesPath(): string {
+    return path.join(this.projectDir, 'references.json');
+  }
+
+  /**
+   * Record that decisions were surfaced to Claude, for digest ranking. The
+   * counts live in `references.json` so that searching doesn't append to the
+   * log, and a failure to update them never fails the search.
+   */
+  noteReferences(ids: string[]): void {
+    if (ids.length === 0) return;
+    const file = this.referencesPath();
+    try {
+      fs.mkdirSync(this.projectDir, { recursive: true });
+      withLock(file, () => {
+        const counts = readJsonFile(file, {}, ReferenceCountsSchema);
+        for (const id of ids) counts[id] = (counts[id] ?? 0) + 1;
+        writeFileAtomic(file, JSON.stringify(counts));
+      });
+    } catch (err) {
+      process.stderr.write(
+        `decision-log: could not record decision references (${(err as Error).message})\n`,
+      );
+    }
+  }
+
+  /**
+   * Remove a decision from the log, e.g. one recorded by mistake. Its
+   * history stays in the event stream.
+   */
+  deleteDecision(id: string): Decision | null {
+    const d = this.getDecision(id);
+    if (!d) return null;
+    this.append({
+      type: 'decision_deleted',
+      at: new Date().toISOString(),
+      session_id: this.getSessionId(),
+      decision_id: id,
+    });
+    return d;
+  }
+
+  /**
+   * Filter, rank and page through decisions. Text matches are ranked by
+   * relevance (see search.ts for the query syntax) unless another sort is
+   * asked for; without a query the default is log order. `total` counts
+   * every match before `offset`/`limit` are applied.
+   */
+  searchDecisions(q: DecisionQuery = {}): DecisionPage {
+    const since = q.since ? timeBound(q.since, 'start') : -Infinity;
+    const until = q.until ? timeBound(q.until, 'end') : Infinity;
+    const tags = q.tags ?? [];
+
+    const candidates = this.readDecisions().filter((d) => {
+      if (!q.includeInactive && d.status !== 'active') return false;
+      if (q.sessionId && d.session_id !== q.sessionId) return false;
+      if (q.path && linkedPaths(d.files, q.path).length === 0) return false;
+      const at = Date.parse(d.timestamp);
+      if (at < since || at > until) return false;
+      if (tags.length > 0) {
+        const hits = tags.filter((t) => d.tags.includes(t)).length;
+        switch (q.tagMode ?? 'any') {
+          case 'any':
+            if (hits === 0) return false;
+            break;
+          case 'all':
+            if (hits < tags.length) return false;
+            break;
+          case 'none':
+            if (hits > 0) return false;
+            break;
+        }
       }
       return true;
     });
+
+    let matches = q.query?.trim()
+      ? rank(candidates, q.query, DECISION_FIELDS).map((r) => r.item)
+      : candidates;
+    const sort = q.sort ?? (q.query?.trim() ? 'relevance' : 'oldest');
+    if (sort !== 'relevance') {
+      const dir = sort === 'newest' ? -1 : 1;
+      matches = [...matches].sort(
+        (a, b) => dir * a.timestamp.localeCompare(b.timestamp),
+      );
+    }
+
+    const offset = q.offset ?? 0;
+    const end = q.limit === undefined ? undefined : offset + q.limit;
+    return { decisions: matches.slice(offset, end), total: matches.length };
   }
 
   // --- Problems (session-level) ---
 
-  private problemsPath(): string {
-    return path.join(this.sessionDir, 'problems.json');
+  readProblems(): Problem[] {
+    this.syncSession();
+    return this.snapshot().problems.filter(
+      (p) => p.session_id === this.sessionId,
+    );
   }
 
-  readProblems(): Problem[] {
-    try {
-      return JSON.parse(fs.readFileSync(this.problemsPath(), 'utf-8'));
-    } catch {
-      return [];
-    }
+  /** Open a problem; returns it as stored, with its short ID. */
+  addProblem(problem: Problem): Problem | null {
+    this.syncSession();
+    this.ensureSession();
+    const {
+      approaches,
+      status,
+      resolution,
+      resolved_at,
+      resumed_from,
+      ...opened
+    } = problem;
+    this.append({
+      type: 'problem_opened',
+      at: problem.created_at,
+      session_id: problem.session_id,
+      problem: opened,
+    });
+    return this.findProblem(problem.id);
   }
 
-  private writeProblems(problems: Problem[]): void {
-    fs.writeFileSync(this.problemsPath(), JSON.stringify(problems, null, 2));
+  logApproach(id: string, approach: Approach): Problem | null {
+    if (!this.getProblem(id)) return null;
+    this.append({
+      type: 'approach_logged',
+      at: approach.timestamp,
+      session_id: this.sessionId,
+      problem_id: id,
+      approach,
+    });
+    return this.getProblem(id);
   }
 
-  addProblem(problem: Problem): void {
-    const problems = this.readProblems();
-    problems.push(problem);
-    this.writeProblems(problems);
+  closeProblem(id: string, resolution: string): Problem | null {
+    if (!this.getProblem(id)) return null;
+    this.append({
+      type: 'problem_closed',
+      at: new Date().toISOString(),
+      session_id: this.sessionId,
+      problem_id: id,
+      resolution,
+    });
+    return this.getProblem(id);
   }
 
-  updateProblem(id: string, updater: (p: Problem) => void): Problem | null {
-    const problems = this.readProblems();
-    const p = problems.find((p) => p.id === id);
+  /**
+   * Move an open problem from an earlier session into this one, keeping its
+   * approach history. Returns null if no such problem exists anywhere.
+   */
+  resumeProblem(id: string): Problem | null {
+    const p = this.findProblem(id);
     if (!p) return null;
-    updater(p);
-    this.writeProblems(problems);
-    return p;
+    this.syncSession();
+    this.ensureSession();
+    this.append({
+      type: 'problem_resumed',
+      at: new Date().toISOString(),
+      session_id: this.sessionId,
+      problem_id: id,
+      from_session_id: p.session_id,
+    });
+    return this.getProblem(id);
+  }
+
+  /**
+   * Search problems from every session of the project. Text is matched
+   * against the problem, its resolution and its approaches; results are
+   * ranked by relevance, or newest first without a query.
+   */
+  searchProblems(q: ProblemQuery = {}): ProblemPage {
+    const candidates = this.snapshot().problems.filter((p) => {
+      if (q.status && p.status !== q.status) return false;
+      if (q.sessionId && p.session_id !== q.sessionId) return false;
+      if (q.outcome && !p.approaches.some((a) => a.outcome === q.outcome)) {
+        return false;
+      }
+      return true;
+    });
+
+    const matches = q.query?.trim()
+      ? rank(candidates, q.query, PROBLEM_FIELDS).map((r) => r.item)
+      : [...candidates].sort((a, b) =>
+          b.created_at.localeCompare(a.created_at),
+        );
+
+    const offset = q.offset ?? 0;
+    const end = q.limit === undefined ? undefined : offset + q.limit;
+    return { problems: matches.slice(offset, end), total: matches.length };
+  }
+
+  // --- Maintenance ---
+
+  /** Where the log is kept, its schema versions and any invalid records. */
+  checkStore(): StoreReport & { projectDir: string; repoStore: string | null } {
+    return {
+      projectDir: this.projectDir,
+      repoStore: this.repoStore,
+      ...checkStore(this.projectDir, this.repoStore),
+    };
+  }
+
+  // --- Sessions ---
+
+  /**
+   * Every session recorded for this project, oldest first. Metadata that
+   * doesn't fit the schema is skipped and reported but left in place, since
+   * listing sessions must not change the store.
+   */
+  listSessions(): SessionMetadata[] {
+    const sessionsDir = path.join(this.projectDir, 'sessions');
+    let ids: string[] = [];
+    try {
+      ids = fs.readdirSync(sessionsDir);
+    } catch {
+      // no sessions yet
+    }
+    const sessions: SessionMetadata[] = [];
+    for (const id of ids) {
+      const file = path.join(sessionsDir, id, 'metadata.json');
+      const read = inspectJsonFile(file, SessionMetadataSchema);
+      if (!read) continue;
+      if ('error' in read) {
+        process.stderr.write(
+          `decision-log: skipping invalid session metadata at ${file} (${read.error})\n`,
+        );
+        continue;
+      }
+      sessions.push(read.value);
+    }
+    return sessions.sort((a, b) => a.started_at.localeCompare(b.started_at));
+  }
+
+  /**
+   * Resolve a full, short (`P-12`) or prefix ID to a problem in this session,
+   * or with `anySession` in any session of the project.
+   */
+  lookupProblem(ref: string, { anySession = false } = {}): Lookup<Problem> {
+    const problems = anySession
+      ? this.snapshot().problems
+      : this.readProblems();
+    return resolveId(problems, ref, 'P');
+  }
+
+  /** Look a problem up in any session, not just the current one. */
+  findProblem(id: string): Problem | null {
+    return this.snapshot().problems.find((p) => p.id === id) ?? null;
   }
 
   getProblem(id: string): Problem | null {
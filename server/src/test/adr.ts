@@ -0,0 +1,299 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { exportAdrs, importAdrs, parseAdr } from '../adr.js';
+import { Storage } from '../storage.js';
+import { makeDecision, storageDir } from './helpers.js';
+
+const CLI = path.resolve(import.meta.dirname, '..', 'cli.js');
+
+const MADR = `---
+status: accepted
+date: 2023-04-01
+tags: [storage]
+---
+
+# 3. Use PostgreSQL for persistence
+
+## Context and Problem Statement
+
+We need a relational store.
+
+## Considered Options
+
+* PostgreSQL
+* MySQL — familiar to ops
+
+## Decision Outcome
+
+Chosen option: "PostgreSQL", because it has the best JSON support.
+`;
+
+const MADR_WITH_DRIVERS = `# Choose a message queue
+
+## Context and Problem Statement
+
+Jobs are lost when a worker restarts.
+
+## Decision Drivers
+
+* Durability across restarts
+* Ops familiarity
+
+## Considered Options
+
+* RabbitMQ
+* SQS
+
+## Decision Outcome
+
+Chosen option: "SQS", because nobody wants to run brokers.
+`;
+
+const NYGARD = `# 1. Record architecture decisions
+
+Date: 2022-01-15
+
+## Status
+
+Superseded by [ADR-0003](0003-use-postgresql.md)
+
+## Context
+
+We need to record the architectural decisions made on this project.
+
+## Decision
+
+We will use Architecture Decision Records. They are lightweight and live with the code.
+
+## Consequences
+
+See Michael Nygard's article.
+`;
+
+const cacheChoice = {
+  options: [
+    { name: 'Redis', description: 'In-memory' },
+    { name: 'Memcached', description: '' },
+  ],
+  chosen: 'Redis',
+  rationale: 'we already run it',
+  tags: ['cache'],
+};
+
+describe('ADR export and import', () => {
+  const tmpProject = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-adr-')),
+  );
+  const adrDir = path.join(tmpProject, 'docs', 'adr');
+
+  before(() => {
+    fs.rmSync(storageDir(tmpProject), { recursive: true, force: true });
+    fs.mkdirSync(adrDir, { recursive: true });
+    fs.writeFileSync(path.join(adrDir, '0001-record-decisions.md'), NYGARD);
+    fs.writeFileSync(path.join(adrDir, '0003-use-postgresql.md'), MADR);
+    fs.writeFileSync(path.join(adrDir, 'README.md'), '# ADRs\n');
+  });
+
+  after(() => {
+    fs.rmSync(tmpProject, { recursive: true, force: true });
+    fs.rmSync(storageDir(tmpProject), { recursive: true, force: true });
+  });
+
+  test('parses MADR files', () => {
+    const adr = parseAdr('0003-use-postgresql.md', MADR);
+    assert.equal(adr?.number, 3);
+    assert.deepEqual(adr?.decision, {
+      timestamp: '2023-04-01T00:00:00.000Z',
+      topic: 'Use PostgreSQL for persistence',
+      options: [
+        { name: 'PostgreSQL', description: '' },
+        { name: 'MySQL', description: 'familiar to ops' },
+      ],
+      chosen: 'PostgreSQL',
+      rationale: 'it has the best JSON support.',
+      tags: ['storage', 'adr'],
+      status: 'active',
+      deprecated_reason: undefined,
+    });
+  });
+
+  test('reads the outcome, not the decision drivers', () => {
+    const adr = parseAdr('0004-choose-a-queue.md', MADR_WITH_DRIVERS);
+    assert.equal(adr?.decision.chosen, 'SQS');
+    assert.equal(adr?.decision.rationale, 'nobody wants to run brokers.');
+  });
+
+  test('parses Nygard files', () => {
+    const adr = parseAdr('0001-record-decisions.md', NYGARD);
+    assert.equal(adr?.decision.topic, 'Record architecture decisions');
+    assert.equal(
+      adr?.decision.chosen,
+      'We will use Architecture Decision Records.',
+    );
+    assert.equal(
+      adr?.decision.rationale,
+      'They are lightweight and live with the code.',
+    );
+    assert.equal(adr?.decision.status, 'superseded');
+    assert.equal(adr?.supersededBy, 3);
+  });
+
+  test('imports an ADR directory once, linking supersession', () => {
+    const { decisions: imported } = importAdrs(
+      [],
+      'import-session',
+      tmpProject,
+    );
+    assert.deepEqual(
+      imported.map((d) => d.source),
+      ['docs/adr/0001-record-decisions.md', 'docs/adr/0003-use-postgresql.md'],
+    );
+    const [nygard, madr] = imported;
+    assert.equal(nygard.superseded_by, madr.id);
+    assert.equal(madr.supersedes, nygard.id);
+
+    assert.deepEqual(
+      importAdrs(imported, 'import-session', tmpProject).decisions,
+      [],
+    );
+  });
+
+  test('export numbers new decisions after existing ADRs, stably', () => {
+    const { decisions: imported } = importAdrs(
+      [],
+      'import-session',
+      tmpProject,
+    );
+    const caching = makeDecision({
+      ...cacheChoice,
+      topic: 'Caching layer',
+      timestamp: '2025-01-01T00:00:00.000Z',
+    });
+    const queue = makeDecision({
+      ...cacheChoice,
+      topic: 'Job queue',
+      timestamp: '2025-02-01T00:00:00.000Z',
+    });
+
+    const first = exportAdrs([...imported, queue, caching], tmpProject);
+    assert.deepEqual(first.written, [
+      '0004-caching-layer.md',
+      '0005-job-queue.md',
+    ]);
+    assert.equal(first.skipped, 2);
+
+    const md = fs.readFileSync(
+      path.join(adrDir, '0004-caching-layer.md'),
+      'utf-8',
+    );
+    assert.match(md, /^---\nstatus: accepted\ndate: 2025-01-01\n/);
+    assert.match(
+      md,
+      /## Considered Options\n\n\* Redis — In-memory\n\* Memcached\n/,
+    );
+    assert.match(md, /Chosen option: "Redis", because we already run it/);
+    assert.match(md, /\* Rejected alternatives: Memcached/);
+    assert.equal(
+      fs.readFileSync(path.join(adrDir, '0003-use-postgresql.md'), 'utf-8'),
+      MADR,
+    );
+
+    // Superseding the cache decision rewrites only its file, keeping numbers
+    const replacement = makeDecision({
+      ...cacheChoice,
+      topic: 'Caching layer v2',
+      timestamp: '2025-03-01T00:00:00.000Z',
+    });
+    caching.status = 'superseded';
+    caching.superseded_by = replacement.id;
+    replacement.supersedes = caching.id;
+    const second = exportAdrs(
+      [...imported, caching, queue, replacement],
+      tmpProject,
+    );
+    assert.deepEqual(second.written, [
+      '0004-caching-layer.md',
+      '0006-caching-layer-v2.md',
+    ]);
+    assert.equal(second.unchanged, 1);
+    assert.match(
+      fs.readFileSync(path.join(adrDir, '0004-caching-layer.md'), 'utf-8'),
+      /status: superseded by ADR-0006[\s\S]*Superseded by \[ADR-0006\]\(0006-caching-layer-v2\.md\)/,
+    );
+
+    // Exported ADRs are recognized on import and not duplicated
+    const again = importAdrs(
+      [...imported, caching, queue, replacement],
+      'import-session',
+      tmpProject,
+    );
+    assert.deepEqual(again.decisions, []);
+  });
+
+  test('ADRs sharing a number are each imported, and reported', () => {
+    const dir = path.join(tmpProject, 'docs', 'numbered');
+    fs.mkdirSync(dir, { recursive: true });
+    const files = {
+      '0001-cache.md':
+        '---\nstatus: superseded by ADR-0002\n---\n\n# 1. Cache\n',
+      '0002-use-redis.md': '# 2. Use Redis\n',
+      '0002-use-valkey.md': '# 2. Use Valkey\n',
+      '0004-queue.md': '---\nstatus: superseded\n---\n\n# 4. Queue\n',
+    };
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, name), content);
+    }
+
+    const { decisions, duplicateNumbers } = importAdrs(
+      [],
+      'import-session',
+      tmpProject,
+      'docs/numbered',
+    );
+    assert.deepEqual(
+      decisions.map((d) => d.topic),
+      ['Cache', 'Use Redis', 'Use Valkey', 'Queue'],
+    );
+    assert.equal(new Set(decisions.map((d) => d.id)).size, 4);
+    assert.deepEqual(duplicateNumbers, [
+      '0002-use-redis.md',
+      '0002-use-valkey.md',
+    ]);
+
+    const [cache, , , queue] = decisions;
+    assert.equal(cache.superseded_by, undefined);
+    assert.equal(cache.status, 'deprecated');
+    assert.equal(cache.deprecated_reason, 'Superseded by ADR-0002');
+    assert.equal(queue.status, 'deprecated');
+    assert.equal(queue.deprecated_reason, 'Superseded');
+  });
+
+  test('the CLI imports into the project log', () => {
+    const output = execFileSync('node', [CLI, 'import'], {
+      cwd: tmpProject,
+      encoding: 'utf-8',
+    });
+    assert.match(output, /5 decision\(s\) imported/);
+
+    const storage = new Storage(tmpProject, randomUUID());
+    const byTopic = (topic: string) =>
+      storage.readDecisions().find((d) => d.topic === topic);
+    assert.equal(
+      byTopic('Use PostgreSQL for persistence')?.chosen,
+      'PostgreSQL',
+    );
+    assert.equal(
+      byTopic('Record architecture decisions')?.status,
+      'superseded',
+    );
+    assert.equal(
+      byTopic('Caching layer')?.superseded_by,
+      byTopic('Caching layer v2')?.id,
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import assert from 'node:assert/strict';
+import { execFileSync, spawnSync } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { Storage } from '../storage.js';
+import { makeDecision, storageDir } from './helpers.js';
+
+const CLI = path.resolve(import.meta.dirname, '..', 'cli.js');
+
+describe('decision-log CLI', () => {
+  const tmpRepo = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-cli-')),
+  );
+  const subdir = path.join(tmpRepo, 'src', 'nested');
+  const db = makeDecision({
+    timestamp: new Date().toISOString(),
+    session_id: 'session-1',
+    topic: 'Database engine',
+    options: [
+      { name: 'SQLite', description: 'Embedded' },
+      { name: 'Postgres', description: 'Server' },
+    ],
+    chosen: 'SQLite',
+    rationale: 'No server to run',
+    tags: ['database'],
+    files: ['src/db'],
+  });
+  const logging = makeDecision({
+    session_id: 'session-1',
+    topic: 'Logging library',
+    chosen: 'pino',
+    rationale: 'Fast structured logs',
+    tags: ['observability'],
+    timestamp: '2025-01-01T00:00:00.000Z',
+  });
+  const problemId = randomUUID();
+
+  function cli(...args: string[]) {
+    return spawnSync('node', [CLI, ...args], {
+      cwd: subdir,
+      encoding: 'utf-8',
+    });
+  }
+
+  function run(...args: string[]): string {
+    const result = cli(...args);
+    assert.equal(result.status, 0, result.stderr);
+    return result.stdout;
+  }
+
+  before(() => {
+    fs.rmSync(storageDir(tmpRepo), { recursive: true, force: true });
+    execFileSync('git', ['init', '-q', tmpRepo]);
+    fs.mkdirSync(subdir, { recursive: true });
+    const storage = new Storage(tmpRepo, 'session-1');
+    storage.addDecision(logging);
+    storage.addDecision(db);
+    storage.addProblem({
+      id: problemId,
+      session_id: 'session-1',
+      problem: 'Migrations hang on CI',
+      status: 'open',
+      created_at: new Date().toISOString(),
+      approaches: [],
+    });
+    storage.logApproach(problemId, {
+      approach: 'Raise the lock timeout',
+      outcome: 'failed',
+      details: 'Still hangs',
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  after(() => {
+    fs.rmSync(tmpRepo, { recursive: true, force: true });
+    fs.rmSync(storageDir(tmpRepo), { recursive: true, force: true });
+  });
+
+  test('list works from a subdirectory of the checkout, newest first', () => {
+    const lines = run('list').trim().split('\n');
+    assert.equal(lines.length, 2);
+    assert.match(lines[0], /Database engine → SQLite \(database\)/);
+    assert.match(lines[1], /^2025-01-01 {2}\S+ {2}Logging library → pino/);
+  });
+
+  test('--json output and tag filters', () => {
+    const { decisions, total } = JSON.parse(
+      run('list', '--json', '--tag', 'observability'),
+    );
+    assert.equal(total, 1);
+    assert.equal(decisions[0].id, logging.id);
+  });
+
+  test('--path lists decisions linked to a file, relative to the cwd', () => {
+    assert.match(run('list', '--path', '../db/pool.ts'), /Database engine/);
+    assert.match(run('list', '--path', '.'), /No decisions found/);
+  });
+
+  test('search ranks by relevance', () => {
+    assert.match(run('search', 'structured', 'logs'), /Logging library/);
+    assert.match(run('search', 'nothing-matches'), /No decisions found/);
+  });
+
+  test('show prints a decision or a problem', () => {
+    const out = run('show', db.id);
+    assert.match(out, /^D-2 {2}Database engine\n {2}id: {9}\S+\n/);
+    assert.match(out, /\* SQLite — Embedded\n {4}- Postgres — Server/);
+    assert.match(run('show', problemId), /FAILED: Raise the lock timeout/);
+    const missing = cli('show', 'no-such-id');
+    assert.equal(missing.status, 1);
+    assert.match(missing.stderr, /no decision or problem with id no-such-id/);
+  });
+
+  test('short IDs, bare numbers and prefixes resolve; ambiguity lists candidates', () => {
+    assert.match(run('list'), /^\S+ {2}D-2 {2}Database engine/);
+    assert.match(run('show', 'P-1'), /^P-1 {2}\[OPEN\] Migrations hang on CI/);
+    assert.match(run('show', 'd2'), /^D-2 {2}Database engine/);
+    assert.match(run('show', db.id.slice(0, 8)), /^D-2 {2}Database engine/);
+
+    const ambiguous = cli('show', '1');
+    assert.equal(ambiguous.status, 1);
+    assert.match(ambiguous.stderr, /id 1 is ambiguous; candidates:/);
+    assert.match(ambiguous.stderr, /D-1 {2}Logging library/);
+    assert.match(ambiguous.stderr, /P-1 {2}Migrations hang on CI/);
+
+    const edit = cli('edit', 'P-1', '--topic', 'Nope');
+    assert.equal(edit.status, 1);
+    assert.match(edit.stderr, /no decision with id P-1/);
+  });
+
+  test('problems and sessions span every session', () => {
+    assert.match(
+      run('problems', '--status', 'open'),
+      /\[OPEN\] Migrations hang on CI \(1 approach\(es\), 1 failed\)/,
+    );
+    const sessions = JSON.parse(run('sessions', '--json'));
+    assert.deepEqual(
+      sessions.map((s: { session_id: string; decisions: number }) => [
+        s.session_id,
+        s.decisions,
+      ]),
+      [['session-1', 2]],
+    );
+  });
+
+  test('report summarizes a session as Markdown', () => {
+    const report = run('report');
+    assert.match(report, /^# Session session-1\n/);
+    assert.match(
+      report,
+      /2 decision\(s\); 1 problem\(s\), 0 resolved and 1 still open; 1 failed approach\(es\)\./,
+    );
+    assert.match(
+      report,
+      /## Unresolved\n\n- \*\*P-1 Migrations hang on CI\*\* — 1 approach, 1 failed; last tried: Raise the lock timeout \(failed\)/,
+    );
+    assert.equal(
+      JSON.parse(run('report', 'sess', '--json')).session_id,
+      'session-1',
+    );
+    assert.match(cli('report', 'nope').stderr, /no session with id nope/);
+  });
+
+  test('stats aggregates every session', () => {
+    assert.match(
+      run('stats'),
+      /Problems: 1 opened, 0 resolved, 1 still open; 1 failed approach\(es\)/,
+    );
+    const stats = JSON.parse(run('stats', '--json'));
+    assert.deepEqual(stats.tags, [
+      { value: 'database', count: 1 },
+      { value: 'observability', count: 1 },
+    ]);
+  });
+
+  test('edit revises and delete removes a decision', () => {
+    assert.match(
+      run(
+        'edit',
+        'D-2',
+        '--rationale',
+        'Single binary',
+        '--tags',
+        'db, storage',
+      ),
+      /Revised: Database engine → SQLite/,
+    );
+    const revised = JSON.parse(run('show', db.id, '--json'));
+    assert.equal(revised.rationale, 'Single binary');
+    assert.deepEqual(revised.tags, ['db', 'storage']);
+
+    assert.match(run('delete', 'D-1'), /Deleted: Logging library/);
+    assert.equal(JSON.parse(run('list', '--json')).total, 1);
+  });
+
+  test('doctor reports the schema version and invalid records', () => {
+    assert.match(run('doctor'), /schema version \d+\)\nNo invalid records\./);
+  });
+
+  test('unknown commands fail with usage', () => {
+    const result = cli('frobnicate');
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /unknown command: frobnicate\n\nUsage:/);
+  });
+});
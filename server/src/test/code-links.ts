@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { linkedPaths, normalizeLinkPath } from '../code-links.js';
+import { callTool, storageDir, text } from './helpers.js';
+
+describe('code link paths', () => {
+  test('are relative to the root, taken from the working directory', () => {
+    const root = path.resolve('/repo');
+    const cwd = path.join(root, 'src');
+    assert.equal(
+      normalizeLinkPath(root, cwd, 'auth/session.ts'),
+      'src/auth/session.ts',
+    );
+    assert.equal(normalizeLinkPath(root, cwd, './auth/'), 'src/auth');
+    assert.equal(
+      normalizeLinkPath(root, cwd, path.join(root, 'README.md')),
+      'README.md',
+    );
+    assert.equal(normalizeLinkPath(root, cwd, '..'), '.');
+  });
+
+  test('match the path itself or a directory containing it', () => {
+    const files = ['src/auth', 'src/db/pool.ts'];
+    assert.deepEqual(linkedPaths(files, 'src/auth/session.ts'), ['src/auth']);
+    assert.deepEqual(linkedPaths(files, 'src/db/pool.ts'), ['src/db/pool.ts']);
+    assert.deepEqual(linkedPaths(files, 'src/authz/roles.ts'), []);
+    assert.deepEqual(linkedPaths(files, 'src/db'), []);
+    assert.deepEqual(linkedPaths(['.'], 'anything.ts'), ['.']);
+    assert.deepEqual(linkedPaths(undefined, 'src/auth'), []);
+  });
+});
+
+describe('decisions linked to code', () => {
+  let client: Client;
+  const tmpRepo = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-links-')),
+  );
+  const cwd = path.join(tmpRepo, 'src');
+  let head: string;
+
+  before(async () => {
+    fs.mkdirSync(cwd);
+    fs.rmSync(storageDir(cwd), { recursive: true, force: true });
+    const git = (...args: string[]) =>
+      execFileSync('git', args, { cwd: tmpRepo, encoding: 'utf-8' }).trim();
+    git('init', '-q');
+    git(
+      '-c',
+      'user.name=test',
+      '-c',
+      'user.email=test@example.com',
+      'commit',
+      '-q',
+      '--allow-empty',
+      '-m',
+      'initial',
+    );
+    head = git('rev-parse', 'HEAD');
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [path.resolve(import.meta.dirname, '..', 'index.js')],
+      cwd,
+    });
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+  });
+
+  after(async () => {
+    await client.close();
+    fs.rmSync(tmpRepo, { recursive: true, force: true });
+    fs.rmSync(storageDir(cwd), { recursive: true, force: true });
+  });
+
+  test('log_decision records files, symbols and the current commit', async () => {
+    const logged = text(
+      await callTool(client, 'log_decision', {
+        topic: 'Session storage',
+        options: [{ name: 'Redis', description: 'Shared across instances' }],
+        chosen: 'Redis',
+        rationale: 'Sessions must survive a deploy',
+        files: ['auth/session.ts'],
+        symbols: ['SessionStore'],
+      }),
+    );
+    assert.match(logged, /Linked to: src\/auth\/session\.ts, SessionStore/);
+
+    await callTool(client, 'log_decision', {
+      topic: 'Auth errors',
+      options: [{ name: 'Problem details', description: 'RFC 9457' }],
+      chosen: 'Problem details',
+      rationale: 'One error shape for every client',
+      files: [path.join(cwd, 'auth')],
+    });
+    await callTool(client, 'log_decision', {
+      topic: 'Unlinked',
+      options: [],
+      chosen: 'x',
+      rationale: 'y',
+    });
+  });
+
+  test('decisions_for_path finds decisions on the file or its directories', async () => {
+    const result = text(
+      await callTool(client, 'decisions_for_path', {
+        path: 'auth/session.ts',
+      }),
+    );
+    assert.match(result, /^2 decision\(s\) linked to src\/auth\/session\.ts/);
+    assert.match(
+      result,
+      new RegExp(
+        `Session storage\\*\\*: Redis .*\\(symbols: SessionStore\\) @ ${head.slice(0, 7)} \\[id: D-1\\]`,
+      ),
+    );
+    assert.match(result, /Auth errors.*\(via src\/auth\)/);
+    assert.doesNotMatch(result, /Unlinked/);
+
+    const sibling = text(
+      await callTool(client, 'decisions_for_path', {
+        path: path.join(tmpRepo, 'src', 'auth', 'tokens.ts'),
+      }),
+    );
+    assert.match(sibling, /^1 decision\(s\)/);
+    assert.match(sibling, /Auth errors/);
+
+    assert.match(
+      text(await callTool(client, 'decisions_for_path', { path: 'db' })),
+      /No decisions linked to src\/db/,
+    );
+  });
+
+  test('superseding keeps the links unless new ones are given', async () => {
+    await callTool(client, 'supersede_decision', {
+      decision_id: 'D-1',
+      options: [{ name: 'Postgres', description: 'Already deployed' }],
+      chosen: 'Postgres',
+      rationale: 'One less service',
+    });
+    const result = text(
+      await callTool(client, 'decisions_for_path', {
+        path: 'auth/session.ts',
+      }),
+    );
+    assert.match(result, /Session storage\*\*: Postgres .*SessionStore/);
+    assert.doesNotMatch(result, /Redis/);
+
+    await callTool(client, 'revise_decision', {
+      decision_id: 'D-4',
+      files: ['auth/store.ts'],
+    });
+    assert.doesNotMatch(
+      text(
+        await callTool(client, 'decisions_for_path', {
+          path: 'auth/session.ts',
+        }),
+      ),
+      /Session storage/,
+    );
+  });
+});
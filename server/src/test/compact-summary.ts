@@ -0,0 +1,224 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { compactSummary } from '../compact-summary.js';
+import { makeApproach, makeDecision, makeProblem } from './helpers.js';
+
+const open = makeProblem({
+  id: 'p1',
+  problem: 'Flaky login test',
+  approaches: [
+    makeApproach({
+      approach: 'Retry the request',
+      outcome: 'failed',
+      details: 'Still flaky on the third run',
+    }),
+    makeApproach({
+      approach: 'Bump the timeout',
+      outcome: 'succeeded',
+      details: 'Passes but only hides the race',
+    }),
+    makeApproach({
+      approach: 'Mock the clock',
+      outcome: 'failed',
+      details: 'Timers still fire out of order',
+    }),
+    makeApproach({
+      approach: 'Pin the seed',
+      outcome: 'succeeded',
+      details: 'Deterministic across 50 runs',
+    }),
+  ],
+});
+const resolved = makeProblem({
+  id: 'p2',
+  problem: 'Slow build',
+  approaches: [makeApproach({ approach: 'Cache', outcome: 'failed' })],
+  status: 'resolved',
+  resolution: 'Parallelized',
+});
+const input = {
+  problems: [open, resolved],
+  sessionDecisions: [
+    makeDecision({ topic: 'Test runner', chosen: 'Test runner choice' }),
+    makeDecision({ topic: 'Mock library', chosen: 'Mock library choice' }),
+  ],
+  otherDecisions: 3,
+};
+
+describe('pre-compact summary', () => {
+  test('returns null when there is nothing to summarize', () => {
+    assert.equal(
+      compactSummary(
+        { problems: [], sessionDecisions: [], otherDecisions: 0 },
+        1000,
+      ),
+      null,
+    );
+  });
+
+  test('everything fits in a generous budget', () => {
+    const msg = compactSummary(input, 10_000) ?? '';
+    assert.match(msg, /\[OPEN\] Flaky login test/);
+    assert.match(msg, /Pin the seed/);
+    assert.match(msg, /Slow build → Parallelized \(1 failed approach\)/);
+    assert.match(msg, /- Mock library: Mock library choice/);
+    assert.match(msg, /3 additional project decision/);
+    assert.doesNotMatch(msg, /OMITTED/);
+  });
+
+  test('collapses older approaches, keeping recent failures', () => {
+    const full = compactSummary(input, 10_000) ?? '';
+    const msg = compactSummary(input, full.length - 120) ?? '';
+    assert.ok(msg.length <= full.length - 120);
+    assert.match(msg, /FAILED: Mock the clock/);
+    assert.doesNotMatch(msg, /Pin the seed/);
+    assert.match(
+      msg,
+      /3 other approach\(es\) collapsed: 1 failed, 2 succeeded/,
+    );
+    assert.match(msg, /OMITTED to fit the summary budget: 3 approach detail/);
+  });
+
+  test('drops resolved problems before decisions', () => {
+    const many = {
+      ...input,
+      problems: [
+        open,
+        ...['Slow build', 'Stale cache', 'Broken CI', 'Lint noise'].map((t) =>
+          makeProblem({
+            problem: t,
+            status: 'resolved',
+            resolution: `${t} fixed by rewriting the module from scratch`,
+          }),
+        ),
+      ],
+    };
+    const budget = (compactSummary(many, 10_000) ?? '').length - 40;
+    const msg = compactSummary(many, budget) ?? '';
+    assert.ok(msg.length <= budget);
+    assert.match(msg, /- Mock library: Mock library choice/);
+    assert.match(msg, /Pin the seed/);
+    assert.match(msg, /Slow build fixed/);
+    assert.doesNotMatch(msg, /Lint noise/);
+    assert.match(msg, /OMITTED to fit the summary budget: \d resolved problem/);
+  });
+
+  test('a tiny budget keeps the header and counts what was left out', () => {
+    const msg = compactSummary(input, 50) ?? '';
+    assert.match(msg, /^DECISION LOG/);
+    assert.match(
+      msg,
+      /OMITTED to fit the summary budget: 1 open problem\(s\), 2 decision\(s\), 1 resolved problem\(s\)/,
+    );
+    assert.doesNotMatch(msg, /approach detail/);
+  });
+
+  test('indents sub-problems and notes what they are blocked by', () => {
+    const ci = makeProblem({ id: 'ci', short_id: 'P-1', problem: 'CI is red' });
+    const db = makeProblem({
+      id: 'db',
+      short_id: 'P-2',
+      problem: 'Flaky DB test',
+      approaches: [makeApproach({ approach: 'Retry' })],
+      parent_id: 'ci',
+    });
+    const lint = makeProblem({
+      id: 'lint',
+      short_id: 'P-3',
+      problem: 'Lint failure',
+      parent_id: 'ci',
+      blocked_by: ['db'],
+    });
+    const msg =
+      compactSummary(
+        { problems: [lint, ci, db], sessionDecisions: [], otherDecisions: 0 },
+        10_000,
+      ) ?? '';
+    assert.match(
+      msg,
+      /\[OPEN\] CI is red\n\n {2}\[OPEN\] Lint failure \(blocked by P-2\)\n\n {2}\[OPEN\] Flaky DB test\n {4}- FAILED: Retry/,
+    );
+  });
+
+  test('drops sub-problems before their parent when over budget', () => {
+    // Long enough that the omission note costs less than a problem
+    const padding = 'x'.repeat(200);
+    const ci = makeProblem({ id: 'ci', problem: `CI is red ${padding}` });
+    const db = makeProblem({
+      id: 'db',
+      problem: `Flaky DB test ${padding}`,
+      parent_id: 'ci',
+    });
+    const lint = makeProblem({
+      id: 'lint',
+      problem: `Lint failure ${padding}`,
+      parent_id: 'ci',
+    });
+    const docs = makeProblem({
+      id: 'docs',
+      problem: `Docs build broken ${padding}`,
+    });
+    const summarize = (budget: number) =>
+      compactSummary(
+        {
+          problems: [ci, db, lint, docs],
+          sessionDecisions: [],
+          otherDecisions: 0,
+        },
+        budget,
+      ) ?? '';
+    const full = summarize(10_000);
+    // The oldest tree goes first, from its last sub-problem up
+    const order = ['Lint failure', 'Flaky DB test', 'CI is red', 'Docs build'];
+    const counts = new Set<number>();
+    for (let budget = 60; budget < full.length; budget++) {
+      const msg = summarize(budget);
+      const shown = order.map((problem) => msg.includes(problem));
+      counts.add(shown.filter(Boolean).length);
+      for (let i = 1; i < shown.length; i++) {
+        assert.ok(!shown[i - 1] || shown[i], `budget ${budget}`);
+      }
+    }
+    // Every step of the drop order was checked
+    assert.deepEqual([...counts].sort(), [0, 1, 2, 3]);
+  });
+
+  test('shows approach facts compactly and counts every outcome', () => {
+    const p = makeProblem({
+      problem: 'Pool exhaustion',
+      approaches: [
+        makeApproach({ approach: 'Restart the server', outcome: 'failed' }),
+        makeApproach({
+          approach: 'Raise the pool size',
+          outcome: 'inconclusive',
+        }),
+        makeApproach({
+          approach: 'Log pool checkouts',
+          outcome: 'partial',
+          details: 'Checkouts are never returned',
+          hypothesis: `Connections are never released ${'by the report job '.repeat(5)}`,
+          commands: ['npm run report -- --debug'],
+          error_signature: 'TimeoutError: pool exhausted',
+        }),
+      ],
+    });
+    const all = { problems: [p], sessionDecisions: [], otherDecisions: 0 };
+    const msg = compactSummary(all, 10_000) ?? '';
+    assert.match(
+      msg,
+      /- PARTIAL: Log pool checkouts — Checkouts are never returned/,
+    );
+    assert.match(
+      msg,
+      /\n {4}hypothesis: Connections are never released by the report job by the repo\.\.\. · ran: `npm run report -- --debug` · error: TimeoutError: pool exhausted/,
+    );
+
+    const full = msg.length;
+    const short = compactSummary(all, full - 20) ?? '';
+    assert.match(
+      short,
+      /2 other approach\(es\) collapsed: 0 failed, 0 succeeded, 1 partial, 1 inconclusive/,
+    );
+    assert.match(short, /FAILED: Restart the server/);
+  });
+});
@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { createDashboard } from '../dashboard.js';
+import { Storage } from '../storage.js';
+import { makeDecision, storageDir } from './helpers.js';
+
+const redis = {
+  session_id: 'session-1',
+  options: [
+    { name: 'Redis', description: 'In-memory <fast>' },
+    { name: 'Memcached', description: 'Simpler' },
+  ],
+  chosen: 'Redis',
+  rationale: 'Already deployed',
+};
+
+describe('web dashboard', () => {
+  const tmpProject = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-dashboard-')),
+  );
+  const cache = makeDecision({
+    ...redis,
+    topic: 'Cache store',
+    tags: ['perf', 'infra'],
+  });
+  const queue = makeDecision({ ...redis, topic: 'Job queue', tags: ['infra'] });
+  const cacheV2 = makeDecision({
+    ...redis,
+    topic: 'Cache store v2',
+    tags: ['perf'],
+    chosen: 'Valkey',
+  });
+  let storage: Storage;
+  let server: Server;
+  let base: string;
+
+  const get = async (urlPath: string) => {
+    const res = await fetch(`${base}${urlPath}`);
+    return { status: res.status, html: await res.text() };
+  };
+
+  before(async () => {
+    fs.rmSync(storageDir(tmpProject), { recursive: true, force: true });
+    storage = new Storage(tmpProject, 'session-1');
+    storage.addDecision(cache);
+    storage.addDecision(queue);
+    storage.supersedeDecision(cache.id, cacheV2);
+    const problemId = randomUUID();
+    storage.addProblem({
+      id: problemId,
+      session_id: 'session-1',
+      problem: 'Cache misses after deploy',
+      status: 'open',
+      created_at: new Date().toISOString(),
+      approaches: [],
+    });
+    for (const outcome of ['failed', 'succeeded'] as const) {
+      storage.logApproach(problemId, {
+        approach: `Approach that ${outcome}`,
+        outcome,
+        details: 'details',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    server = createDashboard(storage);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(tmpProject, { recursive: true, force: true });
+    fs.rmSync(storageDir(tmpProject), { recursive: true, force: true });
+  });
+
+  test('lists active decisions with tag facets', async () => {
+    const { status, html } = await get('/');
+    assert.equal(status, 200);
+    assert.match(html, /Cache store v2<\/a> → Valkey/);
+    assert.match(html, /Job queue<\/a> → Redis/);
+    assert.doesNotMatch(html, /Cache store<\/a>/);
+    assert.match(html, /\?tag=infra">infra<\/a> <span class="muted">1</);
+    assert.match(html, /\?tag=perf">perf<\/a> <span class="muted">1</);
+    assert.doesNotMatch(html, /<script|https?:\/\/(?!127\.0\.0\.1)/);
+  });
+
+  test('tag facets filter the list', async () => {
+    const { html } = await get('/?tag=infra&all=1');
+    assert.match(html, /Decisions tagged infra/);
+    assert.match(
+      html,
+      /Cache store<\/a> → Redis <span class="status superseded">/,
+    );
+    assert.match(html, /Job queue/);
+    assert.doesNotMatch(html, /Cache store v2<\/a>/);
+  });
+
+  test('decision detail shows options and supersession links', async () => {
+    const { html } = await get(`/decisions/${cache.id}`);
+    assert.match(
+      html,
+      /<li class="chosen">Redis — In-memory &lt;fast&gt; ✓<\/li>/,
+    );
+    assert.match(html, /<li>Memcached — Simpler<\/li>/);
+    assert.match(
+      html,
+      new RegExp(
+        `Superseded by <a href="/decisions/${cacheV2.id}">Cache store v2</a>`,
+      ),
+    );
+    const replacement = await get(`/decisions/${cacheV2.id}`);
+    assert.match(
+      replacement.html,
+      new RegExp(`Supersedes <a href="/decisions/${cache.id}">Cache store</a>`),
+    );
+  });
+
+  test('session timeline marks failed and succeeded approaches', async () => {
+    assert.match((await get('/sessions')).html, /href="\/sessions\/session-1"/);
+    const { html } = await get('/sessions/session-1');
+    assert.match(html, /Problem opened:<\/strong> Cache misses after deploy/);
+    assert.match(
+      html,
+      /<span class="failed">✗ failed<\/span> Approach that failed/,
+    );
+    assert.match(
+      html,
+      /<span class="succeeded">✓ succeeded<\/span> Approach that succeeded/,
+    );
+    assert.match(html, /3 decision\(s\), 1 problem\(s\), 1 open/);
+  });
+
+  test('session timeline shows a problem resolved when it was closed', async () => {
+    const id = randomUUID();
+    storage.addProblem({
+      id,
+      session_id: 'session-1',
+      problem: 'Stale cache',
+      status: 'open',
+      created_at: '2025-01-01T08:00:00.000Z',
+      approaches: [],
+    });
+    storage.logApproach(id, {
+      approach: 'Flush on deploy',
+      outcome: 'succeeded',
+      details: '',
+      timestamp: '2025-01-01T08:15:00.000Z',
+    });
+    const resolvedAt = storage.closeProblem(id, 'Flushed')?.resolved_at ?? '';
+
+    const { html } = await get('/sessions/session-1');
+    assert.match(
+      html,
+      new RegExp(
+        `<h3>${resolvedAt.slice(0, 10)}</h3>[\\s\\S]*<span class="muted">${resolvedAt.slice(11, 16)}</span> <strong>Problem resolved:</strong> Stale cache`,
+      ),
+    );
+    assert.doesNotMatch(html, /08:15<\/span> <strong>Problem resolved/);
+  });
+
+  test('is read-only and 404s unknown pages', async () => {
+    assert.equal((await get('/decisions/nope')).status, 404);
+    assert.equal((await get('/sessions/nope')).status, 404);
+    const res = await fetch(`${base}/`, { method: 'POST' });
+    assert.equal(res.status, 405);
+  });
+});
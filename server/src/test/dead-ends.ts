@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { findDeadEnds } from '../dead-ends.js';
+import { makeApproach, makeProblem } from './helpers.js';
+
+const current = makeProblem({
+  id: 'p1',
+  problem: 'Flaky login test on CI',
+  approaches: [
+    makeApproach({ approach: 'Increase the test timeout' }),
+    makeApproach({ approach: 'Mock the system clock', outcome: 'succeeded' }),
+  ],
+});
+const earlier = makeProblem({
+  id: 'p2',
+  problem: 'Login test flaky in CI',
+  approaches: [
+    makeApproach({ approach: 'Retry the login request' }),
+    makeApproach({
+      approach: 'Run with --runInBand',
+      commands: ['npx jest --runInBand'],
+    }),
+  ],
+});
+const unrelated = makeProblem({
+  id: 'p3',
+  problem: 'Docker image too large',
+  approaches: [makeApproach({ approach: 'Retry the login request' })],
+});
+const sameError = makeProblem({
+  id: 'p4',
+  problem: 'Nightly job crashes',
+  approaches: [
+    makeApproach({
+      approach: 'Increase the heap size',
+      error_signature: 'ERR_CONN_RESET',
+    }),
+  ],
+});
+const problems = [current, earlier, unrelated, sameError];
+
+describe('dead ends', () => {
+  test('finds a failure on the same problem', () => {
+    const found = findDeadEnds(problems, current, {
+      approach: 'Try increasing the timeout of the test',
+    });
+    assert.deepEqual(
+      found.map((d) => [d.problem.id, d.approach.approach, d.sameProblem]),
+      [['p1', 'Increase the test timeout', true]],
+    );
+  });
+
+  test('finds failures on similar problems only', () => {
+    const found = findDeadEnds(problems, current, {
+      approach: 'Retry the login request',
+    });
+    assert.deepEqual(
+      found.map((d) => [d.problem.id, d.sameProblem]),
+      [['p2', false]],
+    );
+  });
+
+  test('ignores approaches that succeeded', () => {
+    const found = findDeadEnds(problems, current, {
+      approach: 'Mock the system clock',
+    });
+    assert.deepEqual(found, []);
+  });
+
+  test('the same command counts towards a match', () => {
+    const found = findDeadEnds(problems, current, {
+      approach: 'Run the suite serially',
+      commands: ['npx  jest --runInBand'],
+    });
+    assert.deepEqual(
+      found.map((d) => d.approach.approach),
+      ['Run with --runInBand'],
+    );
+    assert.deepEqual(
+      findDeadEnds(problems, current, { approach: 'Run the suite serially' }),
+      [],
+    );
+  });
+
+  test('problems that hit the same error are similar', () => {
+    const crash = makeProblem({
+      id: 'p5',
+      problem: 'API pods restart',
+      approaches: [
+        makeApproach({
+          approach: 'Check the logs',
+          outcome: 'inconclusive',
+          error_signature: 'err_conn_reset',
+        }),
+      ],
+    });
+    const found = findDeadEnds([...problems, crash], crash, {
+      approach: 'Increase the heap size',
+    });
+    assert.deepEqual(
+      found.map((d) => d.problem.id),
+      ['p4'],
+    );
+  });
+});
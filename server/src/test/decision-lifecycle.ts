@@ -0,0 +1,251 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { callTool, runHook, storageDir, text } from './helpers.js';
+
+describe('decision lifecycle', () => {
+  let client: Client;
+  const tmpDir = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-lifecycle-')),
+  );
+
+  before(async () => {
+    fs.rmSync(storageDir(tmpDir), { recursive: true, force: true });
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [path.resolve(import.meta.dirname, '..', 'index.js')],
+      cwd: tmpDir,
+    });
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+  });
+
+  after(async () => {
+    await client.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    fs.rmSync(storageDir(tmpDir), { recursive: true, force: true });
+  });
+
+  let reduxId: string;
+  let zustandId: string;
+  let cronId: string;
+
+  test('log_decision returns the decision ID', async () => {
+    const result = text(
+      await callTool(client, 'log_decision', {
+        topic: 'State management library',
+        options: [
+          { name: 'Redux', description: 'Predictable, verbose' },
+          { name: 'Zustand', description: 'Small, hook-based' },
+        ],
+        chosen: 'Redux',
+        rationale: 'Team already knows it',
+        tags: ['frontend'],
+      }),
+    );
+    reduxId = result.match(/ID: (.+)/)![1];
+
+    cronId = text(
+      await callTool(client, 'log_decision', {
+        topic: 'Nightly report job',
+        options: [{ name: 'cron', description: 'System cron' }],
+        chosen: 'cron',
+        rationale: 'Simplest scheduler',
+        tags: ['ops'],
+      }),
+    ).match(/ID: (.+)/)![1];
+  });
+
+  test('supersede_decision links the old and new decisions', async () => {
+    const result = text(
+      await callTool(client, 'supersede_decision', {
+        decision_id: reduxId,
+        options: [
+          { name: 'Redux', description: 'Too much boilerplate in practice' },
+          { name: 'Zustand', description: 'Small, hook-based' },
+        ],
+        chosen: 'Zustand',
+        rationale: 'Redux boilerplate slowed every feature down',
+      }),
+    );
+    assert.match(result, /superseded.*Redux.*Zustand/);
+    zustandId = result.match(/ID: (.+)/)![1];
+  });
+
+  test('search hides superseded decisions by default', async () => {
+    const result = text(
+      await callTool(client, 'search_decisions', { query: 'state' }),
+    );
+    assert.match(result, /Found 1 decision/);
+    assert.match(result, /Zustand/);
+    assert.doesNotMatch(result, /: Redux/);
+    assert.match(result, /1 superseded or deprecated decision\(s\) hidden/);
+    // The replacement keeps the old topic and tags
+    assert.match(result, /State management library/);
+    assert.match(result, /tags: frontend/);
+  });
+
+  test('search flags superseded decisions when asked', async () => {
+    const result = text(
+      await callTool(client, 'search_decisions', {
+        query: 'state',
+        include_inactive: true,
+      }),
+    );
+    assert.match(result, /Found 2 decision/);
+    assert.match(result, new RegExp(`Redux.*\\[SUPERSEDED by ${zustandId}\\]`));
+  });
+
+  test('a superseded decision cannot be superseded again', async () => {
+    const result = await callTool(client, 'supersede_decision', {
+      decision_id: reduxId,
+      options: [],
+      chosen: 'MobX',
+      rationale: 'Whatever',
+    });
+    assert.ok(result.isError);
+    assert.match(text(result), /already superseded/);
+  });
+
+  test('revise_decision amends an active decision', async () => {
+    const result = text(
+      await callTool(client, 'revise_decision', {
+        decision_id: zustandId,
+        tags: ['frontend', 'state'],
+      }),
+    );
+    assert.match(result, /Decision revised/);
+
+    const search = text(
+      await callTool(client, 'search_decisions', { tags: ['state'] }),
+    );
+    assert.match(search, /Zustand/);
+  });
+
+  test('deprecate_decision retires a decision', async () => {
+    const result = text(
+      await callTool(client, 'deprecate_decision', {
+        decision_id: cronId,
+        reason: 'Nightly report was removed',
+      }),
+    );
+    assert.match(result, /deprecated.*Nightly report job/);
+
+    const search = text(
+      await callTool(client, 'search_decisions', { tags: ['ops'] }),
+    );
+    assert.match(search, /No matching decisions/);
+  });
+
+  test('unknown decision IDs are rejected', async () => {
+    const result = await callTool(client, 'deprecate_decision', {
+      decision_id: 'nonexistent',
+      reason: 'whatever',
+    });
+    assert.ok(result.isError);
+    assert.match(text(result), /not found/);
+  });
+
+  test('get_context flags retired decisions', async () => {
+    const ctx = text(await callTool(client, 'get_context'));
+    assert.match(ctx, /Redux.*\[SUPERSEDED by/);
+    assert.match(ctx, /cron.*\[DEPRECATED: Nightly report was removed\]/);
+  });
+
+  test('session-start counts only active decisions', () => {
+    const parsed = JSON.parse(runHook('session-start.sh', { cwd: tmpDir }));
+    assert.match(parsed.systemMessage, /1 project decision/);
+    assert.match(parsed.systemMessage, /2 more superseded or deprecated/);
+  });
+
+  test("log_decision refuses to ask an active decision's question again unless forced", async () => {
+    const mobx = {
+      topic: 'State management',
+      options: [{ name: 'MobX', description: 'Observable state' }],
+      chosen: 'MobX',
+      rationale: 'Less code than Zustand',
+    };
+    const refused = await callTool(client, 'log_decision', mobx);
+    assert.ok(refused.isError);
+    const message = text(refused);
+    assert.match(
+      message,
+      /^Not logged: "State management" looks like it repeats or contradicts an existing decision:\n- D-\d+ \(CONFLICTS\): "State management library" → Zustand/,
+    );
+    assert.doesNotMatch(message, /→ Redux/);
+    assert.match(
+      message,
+      new RegExp(`call supersede_decision with decision_id "${zustandId}"`),
+    );
+
+    const forced = text(
+      await callTool(client, 'log_decision', { ...mobx, force: true }),
+    );
+    assert.match(forced, /Decision logged: "State management" → MobX/);
+    assert.match(forced, /Similar decisions still active:\n- .*Zustand/);
+  });
+
+  test('log_decision logs a near miss with a warning', async () => {
+    const tokens = {
+      options: [{ name: 'Cookie', description: 'httpOnly' }],
+      rationale: 'Not readable from scripts',
+      tags: ['auth'],
+    };
+    await callTool(client, 'log_decision', {
+      ...tokens,
+      topic: 'Auth token storage',
+      chosen: 'Cookie',
+    });
+    const result = await callTool(client, 'log_decision', {
+      ...tokens,
+      topic: 'Auth token expiry',
+      chosen: '15 minutes',
+    });
+    assert.ok(!result.isError);
+    assert.match(
+      text(result),
+      /^Decision logged: "Auth token expiry" → 15 minutes\n[\s\S]*Similar decisions still active:\n- D-\d+ \(CONFLICTS\): "Auth token storage"/,
+    );
+  });
+
+  test('a refusal offers to replace the decision asking the same question', async () => {
+    const refresh = {
+      options: [{ name: 'Rotate', description: 'New token on every use' }],
+      chosen: 'Rotate',
+      rationale: 'Limits replay',
+    };
+    await callTool(client, 'log_decision', {
+      ...refresh,
+      topic: 'Refresh token lifetime',
+      tags: ['auth'],
+    });
+    const policyId = text(
+      await callTool(client, 'log_decision', {
+        ...refresh,
+        topic: 'Refresh token rotation policy',
+      }),
+    ).match(/ID: (.+)/)![1];
+
+    // The shared tag ranks the lifetime decision first, but only the policy
+    // asks the same question
+    const message = text(
+      await callTool(client, 'log_decision', {
+        ...refresh,
+        topic: 'Refresh token rotation',
+        chosen: 'Reuse',
+        tags: ['auth'],
+      }),
+    );
+    assert.match(message, /:\n- D-\d+ \(CONFLICTS\): "Refresh token lifetime"/);
+    assert.match(
+      message,
+      new RegExp(
+        `To replace ${policyId}, call supersede_decision with decision_id "${policyId}"`,
+      ),
+    );
+  });
+});
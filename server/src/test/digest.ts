@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { decisionDigest } from '../digest.js';
+import { makeDecision } from './helpers.js';
+
+const decisions = [
+  makeDecision({
+    id: '1',
+    timestamp: '2025-01-01T00:00:00Z',
+    topic: 'ORM',
+    chosen: 'ORM choice',
+    rationale: 'Why ORM',
+    tags: ['database'],
+    reference_count: 9,
+  }),
+  makeDecision({
+    id: '2',
+    timestamp: '2025-02-01T00:00:00Z',
+    topic: 'Migrations',
+    chosen: 'Migrations choice',
+    rationale: 'Why Migrations',
+    tags: ['database'],
+  }),
+  makeDecision({
+    id: '3',
+    timestamp: '2025-03-01T00:00:00Z',
+    topic: 'Logging',
+    chosen: 'Logging choice',
+    rationale: 'Why Logging',
+  }),
+  makeDecision({
+    id: '4',
+    timestamp: '2025-04-01T00:00:00Z',
+    topic: 'Auth tokens',
+    chosen: 'Auth tokens choice',
+    rationale: 'Opaque tokens are\nrevocable   and simple',
+    tags: ['auth', 'security'],
+  }),
+  makeDecision({
+    id: '5',
+    timestamp: '2025-05-01T00:00:00Z',
+    topic: 'Old cache',
+    tags: ['perf'],
+    status: 'superseded',
+  }),
+];
+
+describe('decision digest', () => {
+  test('groups active decisions by first tag', () => {
+    assert.deepEqual(decisionDigest(decisions, 10_000), [
+      '[auth]',
+      '- Auth tokens: Auth tokens choice — Opaque tokens are revocable and simple',
+      '[database]',
+      '- Migrations: Migrations choice — Why Migrations',
+      '- ORM: ORM choice — Why ORM',
+      '[untagged]',
+      '- Logging: Logging choice — Why Logging',
+    ]);
+  });
+
+  test('keeps the most recent and most referenced within budget', () => {
+    const lines = decisionDigest(decisions, 150);
+    assert.deepEqual(lines, [
+      '[auth]',
+      '- Auth tokens: Auth tokens choice — Opaque tokens are revocable and simple',
+      '(3 more active decision(s) not shown — use search_decisions)',
+    ]);
+
+    const wider = decisionDigest(decisions, 190);
+    assert.deepEqual(wider, [
+      '[auth]',
+      '- Auth tokens: Auth tokens choice — Opaque tokens are revocable and simple',
+      '[database]',
+      '- ORM: ORM choice — Why ORM',
+      '(2 more active decision(s) not shown — use search_decisions)',
+    ]);
+  });
+
+  test('leaves room for the note on what was left out', () => {
+    for (let budget = 60; budget <= 200; budget++) {
+      const text = decisionDigest(decisions, budget).join('\n');
+      assert.ok(text.length <= budget, `${text.length} > ${budget}`);
+    }
+    assert.deepEqual(decisionDigest(decisions, 20), []);
+  });
+
+  test('truncates long rationales to one line', () => {
+    const [, line] = decisionDigest(
+      [makeDecision({ topic: 'Big', rationale: 'y'.repeat(300) })],
+      10_000,
+    );
+    assert.ok(line.endsWith('…'));
+    assert.ok(line.length < 150);
+  });
+
+  test('is deterministic regardless of input order', () => {
+    assert.deepEqual(
+      decisionDigest([...decisions].reverse(), 190),
+      decisionDigest(decisions, 190),
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { findSimilarDecisions } from '../duplicates.js';
+import { makeDecision } from './helpers.js';
+
+describe('similar decisions', () => {
+  const existing = [
+    makeDecision({
+      topic: 'State management library',
+      chosen: 'Redux',
+      tags: ['frontend'],
+    }),
+    makeDecision({
+      topic: 'Logging library',
+      chosen: 'pino',
+      tags: ['backend'],
+    }),
+    makeDecision({
+      topic: 'Database choice',
+      chosen: 'SQLite',
+      tags: ['backend'],
+    }),
+    makeDecision({
+      topic: 'Database engine (old)',
+      chosen: 'MySQL',
+      tags: ['backend'],
+      status: 'superseded',
+    }),
+  ];
+
+  test('same question, different answer is a conflict', () => {
+    const similar = findSimilarDecisions(existing, {
+      topic: 'Which state management to use',
+      chosen: 'Zustand',
+      tags: [],
+    });
+    assert.deepEqual(
+      similar.map((s) => [s.decision.topic, s.kind]),
+      [['State management library', 'conflict']],
+    );
+  });
+
+  test('a near miss is similar but not the same question', () => {
+    const similar = findSimilarDecisions(
+      [
+        makeDecision({
+          topic: 'Auth token storage',
+          chosen: 'httpOnly cookie',
+          tags: ['auth'],
+        }),
+      ],
+      { topic: 'Auth token expiry', chosen: '15 minutes', tags: ['auth'] },
+    );
+    assert.deepEqual(
+      similar.map((s) => [s.decision.topic, s.sameQuestion]),
+      [['Auth token storage', false]],
+    );
+    assert.equal(
+      findSimilarDecisions(existing, {
+        topic: 'Which state management to use',
+        chosen: 'Zustand',
+        tags: [],
+      })[0].sameQuestion,
+      true,
+    );
+  });
+
+  test('same answer again is a duplicate', () => {
+    const [match] = findSimilarDecisions(existing, {
+      topic: 'Database engine',
+      chosen: 'sqlite',
+      tags: [],
+    });
+    assert.equal(match.decision.topic, 'Database choice');
+    assert.equal(match.kind, 'duplicate');
+  });
+
+  test('generic words and shared tags alone do not match', () => {
+    assert.deepEqual(
+      findSimilarDecisions(existing, {
+        topic: 'HTTP client library',
+        chosen: 'undici',
+        tags: ['backend'],
+      }),
+      [],
+    );
+  });
+
+  test('a shared tag tips a partial topic match over', () => {
+    const candidate = {
+      topic: 'Database migrations tool and schema',
+      chosen: 'Knex',
+      tags: ['backend'],
+    };
+    assert.equal(findSimilarDecisions(existing, candidate).length, 1);
+    assert.equal(
+      findSimilarDecisions(existing, { ...candidate, tags: [] }).length,
+      0,
+    );
+  });
+});
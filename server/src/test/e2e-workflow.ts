@@ -5,6 +5,7 @@
  */
 
 import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
@@ -282,4 +283,185 @@ describe('E2E: cross-session decision persistence', () => {
 
     await client2.close();
   });
+
+  test('problems from session 1 are searchable in session 2', async () => {
+    const transport1 = new StdioClientTransport({
+      command: 'node',
+      args: [path.resolve(import.meta.dirname, '..', 'index.js')],
+      cwd: tmpDir,
+    });
+    const client1 = new Client({ name: 'session-1', version: '1.0.0' });
+    await client1.connect(transport1);
+
+    const opened = text(
+      await callTool(client1, 'open_problem', {
+        problem: 'Flaky integration test: UserService times out in CI',
+      }),
+    );
+    const id = opened.match(/ID: (.+)/)![1];
+    await callTool(client1, 'log_approach', {
+      problem_id: id,
+      approach: 'Increase the test timeout to 30s',
+      outcome: 'failed',
+      details: 'Still times out — the DB container is not ready',
+    });
+    await callTool(client1, 'log_approach', {
+      problem_id: id,
+      approach: 'Wait for the Postgres healthcheck before running tests',
+      outcome: 'succeeded',
+      details: 'Green on 10 consecutive runs',
+    });
+    await callTool(client1, 'close_problem', {
+      problem_id: id,
+      resolution: 'CI started tests before Postgres accepted connections',
+    });
+    await callTool(client1, 'open_problem', {
+      problem: 'Lint failure in generated code',
+    });
+    await client1.close();
+
+    const transport2 = new StdioClientTransport({
+      command: 'node',
+      args: [path.resolve(import.meta.dirname, '..', 'index.js')],
+      cwd: tmpDir,
+    });
+    const client2 = new Client({ name: 'session-2', version: '1.0.0' });
+    await client2.connect(transport2);
+
+    // list_problems stays scoped to the current session
+    const listed = text(await callTool(client2, 'list_problems', {}));
+    assert.match(listed, /No problems found/);
+
+    const found = text(
+      await callTool(client2, 'search_problems', { query: 'test timeout' }),
+    );
+    assert.match(found, /Found 1 problem/);
+    assert.match(found, /RESOLVED.*Flaky integration test/);
+    assert.match(found, /FAILED: Increase the test timeout/);
+    assert.match(found, /RESOLUTION: CI started tests before Postgres/);
+
+    const failedOnly = text(
+      await callTool(client2, 'search_problems', { outcome: 'failed' }),
+    );
+    assert.match(failedOnly, /Flaky integration test/);
+    assert.doesNotMatch(failedOnly, /SUCCEEDED/);
+    assert.doesNotMatch(failedOnly, /Lint failure/);
+
+    const open = text(
+      await callTool(client2, 'search_problems', { status: 'open' }),
+    );
+    assert.match(open, /Found 1 problem/);
+    assert.match(open, /OPEN.*Lint failure/);
+
+    await client2.close();
+  });
+});
+
+describe('E2E: carrying open problems into a new session', () => {
+  const tmpDir = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-e2e-carry-')),
+  );
+  const firstSession = randomUUID();
+  const secondSession = randomUUID();
+  let problemId: string;
+  let client2: Client;
+
+  before(async () => {
+    fs.rmSync(storageDir(tmpDir), { recursive: true, force: true });
+
+    const transport1 = new StdioClientTransport({
+      command: 'node',
+      args: [path.resolve(import.meta.dirname, '..', 'index.js')],
+      cwd: tmpDir,
+      env: { ...process.env, DECISION_LOG_SESSION_ID: firstSession } as Record<
+        string,
+        string
+      >,
+    });
+    const client1 = new Client({ name: 'session-1', version: '1.0.0' });
+    await client1.connect(transport1);
+    const opened = text(
+      await callTool(client1, 'open_problem', {
+        problem: 'Webhook signatures fail verification in staging',
+      }),
+    );
+    problemId = opened.match(/ID: (.+)/)![1];
+    await callTool(client1, 'log_approach', {
+      problem_id: problemId,
+      approach: 'Rotate the webhook secret',
+      outcome: 'failed',
+      details: 'Same mismatch with a fresh secret',
+    });
+    await callTool(client1, 'open_problem', { problem: 'Solved elsewhere' });
+    await client1.close();
+  });
+
+  after(async () => {
+    await client2?.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    fs.rmSync(storageDir(tmpDir), { recursive: true, force: true });
+  });
+
+  test('SessionStart lists open problems from earlier sessions', () => {
+    const parsed = JSON.parse(
+      runHook('session-start.sh', {
+        cwd: tmpDir,
+        session_id: secondSession,
+        source: 'startup',
+      }),
+    );
+    const msg = parsed.systemMessage;
+    assert.match(msg, /UNRESOLVED PROBLEMS FROM RECENT SESSIONS/);
+    assert.match(msg, /Webhook signatures fail verification/);
+    assert.match(msg, new RegExp(`\\[id: ${problemId}\\]`));
+    assert.match(msg, /FAILED: Rotate the webhook secret/);
+    assert.match(msg, /resume_problem/);
+  });
+
+  test('resume_problem adopts the problem with its history', async () => {
+    const transport2 = new StdioClientTransport({
+      command: 'node',
+      args: [path.resolve(import.meta.dirname, '..', 'index.js')],
+      cwd: tmpDir,
+    });
+    client2 = new Client({ name: 'session-2', version: '1.0.0' });
+    await client2.connect(transport2);
+
+    const result = text(
+      await callTool(client2, 'resume_problem', { problem_id: problemId }),
+    );
+    assert.match(result, /Problem resumed: "Webhook signatures/);
+    assert.match(result, new RegExp(`from session ${firstSession}`));
+    assert.match(result, /FAILED: Rotate the webhook secret/);
+
+    await callTool(client2, 'log_approach', {
+      problem_id: problemId,
+      approach: 'Verify against the raw request body',
+      outcome: 'succeeded',
+      details: 'The JSON middleware re-serialized the body',
+    });
+    const ctx = text(await callTool(client2, 'get_context'));
+    assert.match(ctx, /FAILED: Rotate the webhook secret/);
+    assert.match(ctx, /SUCCEEDED: Verify against the raw request body/);
+  });
+
+  test('a problem resumed into this session is not listed again', () => {
+    const parsed = JSON.parse(
+      runHook('session-start.sh', {
+        cwd: tmpDir,
+        session_id: secondSession,
+        source: 'compact',
+      }),
+    );
+    assert.doesNotMatch(parsed.systemMessage, /Webhook signatures/);
+    assert.match(parsed.systemMessage, /Solved elsewhere/);
+  });
+
+  test('resume_problem rejects problems already in this session', async () => {
+    const result = await callTool(client2, 'resume_problem', {
+      problem_id: problemId,
+    });
+    assert.ok(result.isError);
+    assert.match(text(result), /already in this session/);
+  });
 });
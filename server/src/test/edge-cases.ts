@@ -168,6 +168,141 @@ describe('edge cases', () => {
     const text = getText(result);
     assert.match(text, /Approaches: 5.*4 failed/);
   });
+
+  test('approaches keep their hypothesis, commands and error signature', async () => {
+    const id = getText(
+      await callTool(client, 'open_problem', { problem: 'Pool exhaustion' }),
+    ).match(/ID: (.+)/)![1];
+
+    const logged = getText(
+      await callTool(client, 'log_approach', {
+        problem_id: id,
+        approach: 'Log pool checkouts',
+        outcome: 'partial',
+        details: 'Leak is in the report job, not the API',
+        hypothesis: 'Connections are never released',
+        commands: ['npm run report -- --debug'],
+        files_changed: ['src/db/pool.ts'],
+        error_signature: 'TimeoutError: pool exhausted',
+      }),
+    );
+    assert.match(logged, /Approach logged \[PARTIAL\]: Log pool checkouts/);
+    await callTool(client, 'log_approach', {
+      problem_id: id,
+      approach: 'Bisect the report job',
+      outcome: 'in_progress',
+      details: '12 commits left',
+    });
+
+    const ctx = getText(await callTool(client, 'get_context'));
+    assert.match(
+      ctx,
+      /- PARTIAL: Log pool checkouts — Leak is in the report job, not the API\n {2}hypothesis: Connections are never released · ran: `npm run report -- --debug` · changed: src\/db\/pool.ts · error: TimeoutError: pool exhausted/,
+    );
+    assert.match(ctx, /- IN PROGRESS: Bisect the report job — 12 commits left/);
+
+    const found = getText(
+      await callTool(client, 'search_problems', { query: 'TimeoutError' }),
+    );
+    assert.match(found, /Pool exhaustion/);
+  });
+
+  test('check_approach and log_approach flag approaches that already failed', async () => {
+    const openProblem = async (problem: string) =>
+      getText(await callTool(client, 'open_problem', { problem })).match(
+        /ID: (.+)/,
+      )![1];
+    const earlier = await openProblem('Webhook signature check fails');
+    await callTool(client, 'log_approach', {
+      problem_id: earlier,
+      approach: 'Compare against the raw request body',
+      outcome: 'failed',
+      details: 'Body parser had already re-encoded it',
+      commands: ['npm run test:webhooks'],
+    });
+    const id = await openProblem('Webhook signature mismatch in staging');
+
+    const repeat = getText(
+      await callTool(client, 'check_approach', {
+        problem_id: id,
+        approach: 'Verify the signature against the raw body',
+        commands: ['npm run test:webhooks'],
+      }),
+    );
+    assert.match(repeat, /Likely dead end/);
+    assert.match(
+      repeat,
+      new RegExp(
+        `- ${earlier} "Webhook signature check fails", \\d{4}-\\d\\d-\\d\\d, FAILED: Compare against the raw request body — Body parser had already re-encoded it\\n {2}ran: \`npm run test:webhooks\``,
+      ),
+    );
+
+    const fresh = getText(
+      await callTool(client, 'check_approach', {
+        problem_id: id,
+        approach: 'Rotate the staging secret',
+      }),
+    );
+    assert.match(fresh, /No failed approach on .* resembles/);
+
+    const logged = getText(
+      await callTool(client, 'log_approach', {
+        problem_id: id,
+        approach: 'Compare the raw request body',
+        outcome: 'in_progress',
+        details: 'Reading the body before the parser',
+      }),
+    );
+    assert.match(logged, /Approach logged \[IN PROGRESS\]/);
+    assert.match(
+      logged,
+      /Warning: this resembles approach\(es\) that already failed/,
+    );
+  });
+
+  test('sub-problems and blockers are shown as a tree', async () => {
+    const openProblem = async (args: Record<string, unknown>) =>
+      getText(await callTool(client, 'open_problem', args)).match(
+        /ID: (.+)/,
+      )![1];
+    const ci = await openProblem({ problem: 'CI is red' });
+    const db = await openProblem({ problem: 'Flaky DB test', parent_id: ci });
+    const lint = await openProblem({
+      problem: 'Lint failure',
+      parent_id: ci,
+      blocked_by: [db],
+    });
+
+    const missing = await callTool(client, 'open_problem', {
+      problem: 'Orphan',
+      parent_id: 'P-999',
+    });
+    assert.equal(missing.isError, true);
+
+    const list = getText(await callTool(client, 'list_problems', {}));
+    assert.match(
+      list,
+      new RegExp(
+        `- \\[OPEN\\] CI is red.*\\n {2}- \\[OPEN\\] Flaky DB test.*\\n {2}- \\[OPEN\\] Lint failure.*\\[id: ${lint}\\] \\(blocked by ${db}\\)`,
+      ),
+    );
+    const ctx = getText(await callTool(client, 'get_context'));
+    assert.match(ctx, /### ↳ \[OPEN\] Lint failure/);
+
+    const closed = getText(
+      await callTool(client, 'close_problem', {
+        problem_id: ci,
+        resolution: 'Reverted the dependency bump',
+      }),
+    );
+    assert.match(closed, /Warning: 2 sub-problem\(s\) are still open/);
+    assert.match(closed, new RegExp(`- Lint failure \\[id: ${lint}\\]`));
+
+    const open = getText(
+      await callTool(client, 'list_problems', { status: 'open' }),
+    );
+    assert.match(open, new RegExp(`Flaky DB test.*\\(sub-problem of ${ci}\\)`));
+  });
 });
 
 describe('multi-session hook behavior', () => {
@@ -267,3 +402,120 @@ describe('multi-session hook behavior', () => {
     assert.doesNotMatch(parsed.systemMessage, /OLD PROBLEM/);
   });
 });
+
+describe('session identity handoff', () => {
+  const tmpProject = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-handoff-')),
+  );
+  const projectDir = storageDir(tmpProject);
+  const claudeSessionId = randomUUID();
+  let client: Client;
+
+  before(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  after(async () => {
+    await client?.close();
+    fs.rmSync(tmpProject, { recursive: true, force: true });
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('session-start.sh writes a handoff for the MCP server', () => {
+    runHook('session-start.sh', {
+      cwd: tmpProject,
+      session_id: claudeSessionId,
+      source: 'startup',
+    });
+    const handoff = JSON.parse(
+      fs.readFileSync(
+        path.join(projectDir, 'handoffs', `${claudeSessionId}.json`),
+        'utf-8',
+      ),
+    );
+    assert.equal(handoff.session_id, claudeSessionId);
+    assert.ok(Array.isArray(handoff.claude_pids));
+  });
+
+  test('MCP server records into the Claude Code session', async () => {
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [path.resolve(import.meta.dirname, '..', 'index.js')],
+      cwd: tmpProject,
+    });
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+
+    await callTool(client, 'log_decision', {
+      topic: 'Handoff decision',
+      options: [{ name: 'A', description: 'Only option' }],
+      chosen: 'A',
+      rationale: 'Testing session identity',
+    });
+    await callTool(client, 'open_problem', { problem: 'HANDOFF PROBLEM' });
+
+    const events = fs
+      .readFileSync(path.join(projectDir, 'events.jsonl'), 'utf-8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    assert.deepEqual(
+      events.map((e) => [e.type, e.session_id]),
+      [
+        ['decision_logged', claudeSessionId],
+        ['problem_opened', claudeSessionId],
+      ],
+    );
+    assert.ok(
+      fs.existsSync(
+        path.join(projectDir, 'sessions', claudeSessionId, 'metadata.json'),
+      ),
+    );
+    // The handoff is consumed once claimed
+    assert.ok(
+      !fs.existsSync(
+        path.join(projectDir, 'handoffs', `${claudeSessionId}.json`),
+      ),
+    );
+  });
+
+  test('pre-compact summarizes the session named in the hook input', () => {
+    // A newer session from another Claude instance in the same project
+    const otherId = randomUUID();
+    const otherDir = path.join(projectDir, 'sessions', otherId);
+    fs.mkdirSync(otherDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(otherDir, 'metadata.json'),
+      JSON.stringify({
+        session_id: otherId,
+        project_slug: 'test',
+        cwd: tmpProject,
+        started_at: new Date().toISOString(),
+      }),
+    );
+    fs.writeFileSync(
+      path.join(otherDir, 'problems.json'),
+      JSON.stringify([
+        {
+          id: randomUUID(),
+          session_id: otherId,
+          problem: 'OTHER SESSION PROBLEM',
+          status: 'open',
+          created_at: new Date().toISOString(),
+          approaches: [],
+        },
+      ]),
+    );
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(path.join(otherDir, 'metadata.json'), future, future);
+
+    const output = runHook('pre-compact.sh', {
+      cwd: tmpProject,
+      session_id: claudeSessionId,
+    });
+    const msg = JSON.parse(output).systemMessage;
+    assert.match(msg, /HANDOFF PROBLEM/);
+    assert.doesNotMatch(msg, /OTHER SESSION PROBLEM/);
+    assert.match(msg, /Handoff decision/);
+  });
+});
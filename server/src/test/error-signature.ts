@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  errorLine,
+  errorSignature,
+  findSeenErrors,
+} from '../error-signature.js';
+import { makeApproach, makeProblem } from './helpers.js';
+
+describe('error signatures', () => {
+  test('finds the line stating the error', () => {
+    const node = [
+      '/home/ann/app/src/server.js:14',
+      '    app.listen(port);',
+      '        ^',
+      '',
+      "TypeError: Cannot read properties of undefined (reading 'listen')",
+      '    at Object.<anonymous> (/home/ann/app/src/server.js:14:9)',
+    ].join('\n');
+    assert.equal(
+      errorLine(node),
+      "TypeError: Cannot read properties of undefined (reading 'listen')",
+    );
+    assert.equal(
+      errorLine(
+        'Traceback (most recent call last):\n  File "x.py", line 3\nKeyError: \'user\'',
+      ),
+      "KeyError: 'user'",
+    );
+    assert.equal(
+      errorLine('src/a.ts(3,5): error TS2322: Type string is not assignable'),
+      'src/a.ts(3,5): error TS2322: Type string is not assignable',
+    );
+    assert.equal(
+      errorLine('\u001b[31mfatal: not a git repository\u001b[0m'),
+      'fatal: not a git repository',
+    );
+    assert.equal(errorLine('all 12 tests passed'), null);
+  });
+
+  test('strips paths, line numbers and ids', () => {
+    assert.equal(
+      errorSignature(
+        "Error: Cannot find module '/home/ann/app/dist/db.js' imported from /home/ann/app/src/index.ts:3:17",
+      ),
+      "Error: Cannot find module '<path>' imported from <path>",
+    );
+    assert.equal(
+      errorSignature(
+        'Segfault at 0x7ffd5e8a in worker 3f2a9c1b7e, job 123e4567-e89b-12d3-a456-426614174000',
+      ),
+      'Segfault at <hex> in worker <hex>, job <id>',
+    );
+    assert.equal(
+      errorSignature('  File "x.py", line 12, in main'),
+      errorSignature('  File "x.py", line 40, in main'),
+    );
+  });
+
+  test('matches recorded signatures, details and resolutions', () => {
+    const signature = errorSignature(
+      'Error: listen EADDRINUSE: address already in use :::3000',
+    );
+    const problems = [
+      makeProblem({
+        id: '1',
+        problem: 'Dev server will not start',
+        created_at: '2025-01-01T00:00:00Z',
+        approaches: [
+          makeApproach({
+            details: 'Error: listen EADDRINUSE: address already in use :::8080',
+          }),
+        ],
+      }),
+      makeProblem({
+        id: '2',
+        problem: 'Port clash in tests',
+        created_at: '2025-01-02T00:00:00Z',
+        status: 'resolved',
+        resolution: 'Tests now bind port 0',
+      }),
+      makeProblem({
+        id: '3',
+        problem: 'Port clash again',
+        created_at: '2025-01-03T00:00:00Z',
+        approaches: [
+          makeApproach({
+            error_signature:
+              'Error: listen EADDRINUSE: address already in use :::4000',
+          }),
+        ],
+      }),
+      makeProblem({
+        id: '4',
+        problem: 'Unrelated',
+        created_at: '2025-01-04T00:00:00Z',
+        approaches: [makeApproach({ details: 'Error: ENOENT' })],
+      }),
+    ];
+    const seen = findSeenErrors(problems, signature);
+    assert.deepEqual(
+      seen.map((s) => s.problem.id),
+      ['3', '1'],
+    );
+    assert.ok(seen[0].approach);
+  });
+
+  test('resolved problems come first', () => {
+    const signature = 'TypeError: fetch failed';
+    const seen = findSeenErrors(
+      [
+        makeProblem({
+          id: '1',
+          problem: 'API calls fail',
+          created_at: '2025-01-01T00:00:00Z',
+          status: 'resolved',
+          resolution: 'TypeError: fetch failed — the proxy needed NO_PROXY',
+        }),
+        makeProblem({
+          id: '2',
+          problem: 'Fetch broken',
+          created_at: '2025-01-02T00:00:00Z',
+          approaches: [makeApproach({ error_signature: signature })],
+        }),
+      ],
+      signature,
+    );
+    assert.deepEqual(
+      seen.map((s) => s.problem.id),
+      ['1', '2'],
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { decisionsForFile, fileReminder } from '../file-reminders.js';
+import { makeDecision } from './helpers.js';
+
+describe('file reminders', () => {
+  const linkedDir = makeDecision({
+    short_id: 'D-1',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    topic: 'Auth layout',
+    files: ['src/auth'],
+  });
+  const tagged = makeDecision({
+    short_id: 'D-2',
+    timestamp: '2025-01-02T00:00:00.000Z',
+    topic: 'Auth errors',
+    tags: ['Auth'],
+  });
+  const linkedFile = makeDecision({
+    short_id: 'D-3',
+    timestamp: '2025-01-03T00:00:00.000Z',
+    topic: 'Session storage',
+    files: ['src/auth/session.ts'],
+    options: [
+      { name: 'Redis', description: '' },
+      { name: 'Postgres', description: '' },
+    ],
+    chosen: 'Redis',
+    rationale: 'Sessions must survive a deploy',
+  });
+  const retired = makeDecision({
+    short_id: 'D-4',
+    timestamp: '2025-01-04T00:00:00.000Z',
+    topic: 'Old auth',
+    files: ['src/auth'],
+    status: 'superseded',
+  });
+  const unrelated = makeDecision({
+    short_id: 'D-5',
+    timestamp: '2025-01-05T00:00:00.000Z',
+    topic: 'Logging',
+    tags: ['observability'],
+  });
+  const all = [linkedDir, tagged, linkedFile, retired, unrelated];
+
+  test('linked decisions come before tagged ones, newest first', () => {
+    assert.deepEqual(
+      decisionsForFile(all, 'src/auth/session.ts').map((d) => d.topic),
+      ['Session storage', 'Auth layout', 'Auth errors'],
+    );
+    assert.deepEqual(decisionsForFile(all, 'src/session/auth.ts'), [tagged]);
+    assert.deepEqual(decisionsForFile(all, 'docs/logging.md'), []);
+  });
+
+  test('names what was chosen over what, and skips what was shown', () => {
+    const first = fileReminder(all, 'src/auth/session.ts', new Set());
+    assert.match(
+      first?.text ?? '',
+      /^Decisions that apply to src\/auth\/session\.ts:\n- D-3 \(Session storage\): chose Redis over Postgres — Sessions must survive a deploy\n/,
+    );
+    assert.equal(first?.reminded.length, 3);
+
+    const later = fileReminder(
+      all,
+      'src/auth/session.ts',
+      new Set([linkedFile.id, linkedDir.id]),
+    );
+    assert.deepEqual(later?.reminded, [tagged]);
+    assert.equal(
+      fileReminder(
+        all,
+        'src/auth/session.ts',
+        new Set([...all.map((d) => d.id)]),
+      ),
+      null,
+    );
+  });
+});
@@ -1,7 +1,8 @@
 import { execFileSync } from 'node:child_process';
-import { createHash } from 'node:crypto';
+import { createHash, randomUUID } from 'node:crypto';
 import * as path from 'node:path';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Approach, Decision, Problem } from '../types.js';
 
 const STORAGE_ROOT = path.join(process.env.HOME!, '.claude', 'decision-log');
 const PLUGIN_ROOT = path.resolve(import.meta.dirname, '..', '..', '..');
@@ -25,10 +26,55 @@ export function text(result: Awaited<ReturnType<typeof callTool>>): string {
     .join('\n');
 }
 
-export function runHook(hookScript: string, input: object): string {
+export function runHook(
+  hookScript: string,
+  input: object,
+  env: Record<string, string> = {},
+): string {
   return execFileSync('bash', [path.join(PLUGIN_ROOT, 'hooks', hookScript)], {
     input: JSON.stringify(input),
     encoding: 'utf-8',
     stdio: ['pipe', 'pipe', 'pipe'],
+    env: { ...process.env, ...env },
   }).trim();
 }
+
+// Fixture builders: a valid record with placeholder values, overridden by
+// whatever the test is about.
+
+export function makeDecision(overrides: Partial<Decision> = {}): Decision {
+  return {
+    id: randomUUID(),
+    timestamp: '2025-01-01T00:00:00.000Z',
+    session_id: 's',
+    topic: 'Topic',
+    options: [],
+    chosen: 'x',
+    rationale: 'y',
+    tags: [],
+    status: 'active',
+    ...overrides,
+  };
+}
+
+export function makeProblem(overrides: Partial<Problem> = {}): Problem {
+  return {
+    id: randomUUID(),
+    session_id: 's',
+    problem: 'Problem',
+    status: 'open',
+    created_at: '2025-01-01T00:00:00.000Z',
+    approaches: [],
+    ...overrides,
+  };
+}
+
+export function makeApproach(overrides: Partial<Approach> = {}): Approach {
+  return {
+    approach: 'Try it',
+    outcome: 'failed',
+    details: '',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
@@ -109,6 +109,29 @@ describe('hook scripts', () => {
     assert.match(parsed.systemMessage, /2 project decision/);
   });
 
+  test('session-start.sh injects a digest of key decisions', () => {
+    const msg = JSON.parse(
+      runHook('session-start.sh', { cwd: tmpProject }),
+    ).systemMessage;
+    assert.match(msg, /KEY DECISIONS:/);
+    assert.match(msg, /\[database\]\n- Database engine: SQLite — No external/);
+    assert.match(msg, /\[framework\]\n- Framework choice: Express/);
+  });
+
+  test('session-start.sh digest respects the configured budget', () => {
+    const msg = JSON.parse(
+      runHook(
+        'session-start.sh',
+        { cwd: tmpProject },
+        { DECISION_LOG_SESSION_START_CHARS: '124' },
+      ),
+    ).systemMessage;
+    assert.match(msg, /2 project decision/);
+    assert.match(msg, /1 more active decision\(s\) not shown/);
+    const digest = msg.split('KEY DECISIONS:\n')[1].split('\n\n')[0];
+    assert.ok(digest.length <= 124);
+  });
+
   test('session-start.sh exits cleanly when no data exists', () => {
     const output = runHook('session-start.sh', {
       cwd: '/tmp/nonexistent-project-xyzzy',
@@ -141,10 +164,223 @@ describe('hook scripts', () => {
     assert.match(msg, /1 additional project decision/);
   });
 
+  test('pre-compact.sh respects the configured budget', () => {
+    const msg = JSON.parse(
+      runHook(
+        'pre-compact.sh',
+        { cwd: tmpProject },
+        { DECISION_LOG_PRECOMPACT_CHARS: '500' },
+      ),
+    ).systemMessage;
+    assert.ok(msg.length <= 500);
+    assert.match(msg, /Auth middleware/);
+    assert.match(msg, /OMITTED to fit the summary budget/);
+  });
+
   test('pre-compact.sh exits cleanly when no data exists', () => {
     const output = runHook('pre-compact.sh', {
       cwd: '/tmp/nonexistent-project-xyzzy',
     });
     assert.equal(output, '');
   });
+
+  test('pre-tool-use.sh reminds of decisions once per session', () => {
+    const edit = {
+      cwd: tmpProject,
+      session_id: sessionId,
+      tool_name: 'Edit',
+      tool_input: { file_path: path.join(tmpProject, 'src/database/pool.ts') },
+    };
+    const parsed = JSON.parse(runHook('pre-tool-use.sh', edit));
+    assert.equal(parsed.hookSpecificOutput.hookEventName, 'PreToolUse');
+    assert.match(
+      parsed.hookSpecificOutput.additionalContext,
+      /^Decisions that apply to src\/database\/pool\.ts:\n- D-1 \(Database engine\): chose SQLite over PostgreSQL — No external/,
+    );
+    assert.doesNotMatch(parsed.systemMessage, /Framework choice/);
+
+    assert.equal(runHook('pre-tool-use.sh', edit), '');
+
+    // Compaction wipes Claude's memory of the reminder, so it comes back
+    runHook('pre-compact.sh', { cwd: tmpProject, session_id: sessionId });
+    assert.match(runHook('pre-tool-use.sh', edit), /Database engine/);
+  });
+
+  test('pre-tool-use.sh stays quiet for unrelated files', () => {
+    assert.equal(
+      runHook('pre-tool-use.sh', {
+        cwd: tmpProject,
+        session_id: sessionId,
+        tool_name: 'Write',
+        tool_input: { file_path: path.join(tmpProject, 'README.md') },
+      }),
+      '',
+    );
+    assert.equal(
+      runHook('pre-tool-use.sh', { cwd: tmpProject, tool_name: 'Write' }),
+      '',
+    );
+  });
+
+  test('session-end.sh records when the session ended', () => {
+    assert.equal(
+      runHook('session-end.sh', { cwd: tmpProject, session_id: sessionId }),
+      '',
+    );
+    const meta = JSON.parse(
+      fs.readFileSync(path.join(sessionDir, 'metadata.json'), 'utf-8'),
+    );
+    assert.ok(Date.parse(meta.ended_at) <= Date.now());
+    assert.equal(meta.session_id, sessionId);
+  });
+});
+
+describe('post-tool-use hook', () => {
+  const project = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-hook-bash-')),
+  );
+  const store = storageDir(project);
+  const session = randomUUID();
+  const dir = path.join(store, 'sessions', session);
+  const failure = (command: string, error: string) => ({
+    hook_event_name: 'PostToolUseFailure',
+    cwd: project,
+    session_id: session,
+    tool_name: 'Bash',
+    tool_input: { command },
+    error,
+  });
+  const success = (command: string, stdout: string, stderr: string) => ({
+    hook_event_name: 'PostToolUse',
+    cwd: project,
+    session_id: session,
+    tool_name: 'Bash',
+    tool_input: { command },
+    tool_response: { stdout, stderr },
+  });
+
+  before(() => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, 'metadata.json'),
+      JSON.stringify({
+        session_id: session,
+        project_slug: 'test',
+        cwd: project,
+        started_at: new Date().toISOString(),
+      }),
+    );
+    fs.writeFileSync(
+      path.join(dir, 'problems.json'),
+      JSON.stringify([
+        {
+          id: randomUUID(),
+          session_id: 'old-session',
+          problem: 'Dev server will not start',
+          status: 'resolved',
+          created_at: '2025-01-01T00:00:00.000Z',
+          approaches: [
+            {
+              approach: 'Restart the server',
+              outcome: 'failed',
+              details:
+                'Error: listen EADDRINUSE: address already in use :::3000',
+              timestamp: '2025-01-01T00:00:00.000Z',
+            },
+          ],
+          resolution: 'A stale watcher held the port; kill it first',
+        },
+        {
+          id: randomUUID(),
+          session_id: session,
+          problem: 'E2E suite cannot boot the app',
+          status: 'open',
+          created_at: new Date().toISOString(),
+          approaches: [],
+        },
+      ]),
+    );
+  });
+
+  after(() => {
+    fs.rmSync(project, { recursive: true, force: true });
+    fs.rmSync(store, { recursive: true, force: true });
+  });
+
+  test('post-tool-use.sh points at a problem that hit the same error', () => {
+    const out = runHook(
+      'post-tool-use.sh',
+      failure(
+        'npm run e2e',
+        'node:events:497\n      throw er;\n\nError: listen EADDRINUSE: address already in use :::4173\n    at Server.setupListenHandle (node:net:1908:16)',
+      ),
+    );
+    const parsed = JSON.parse(out);
+    assert.equal(parsed.hookSpecificOutput.hookEventName, 'PostToolUseFailure');
+    assert.match(
+      parsed.hookSpecificOutput.additionalContext,
+      /^This error was seen before \(Error: listen EADDRINUSE: address already in use ::\):\n- in P-1 "Dev server will not start"; resolution was: A stale watcher held the port; kill it first\n {2}FAILED: Restart the server/,
+    );
+    assert.doesNotMatch(parsed.systemMessage, /Logged this failure/);
+  });
+
+  test('post-tool-use.sh ignores successful and unrelated output', () => {
+    assert.equal(
+      runHook(
+        'post-tool-use.sh',
+        success('grep -rn TypeError src', 'src/a.ts:3: TypeError: x', ''),
+      ),
+      '',
+    );
+    // npm warns on stderr and still succeeds
+    assert.equal(
+      runHook(
+        'post-tool-use.sh',
+        success(
+          'npm install',
+          'added 12 packages',
+          "npm warn cleanup Error: EACCES: permission denied, rmdir 'node_modules/.bin'",
+        ),
+        { DECISION_LOG_DRAFT_APPROACHES: '1' },
+      ),
+      '',
+    );
+    assert.equal(
+      runHook(
+        'post-tool-use.sh',
+        failure('npm test', 'TypeError: x is not a function'),
+      ),
+      '',
+    );
+  });
+
+  test('post-tool-use.sh drafts an approach on the open problem when enabled', () => {
+    const env = { DECISION_LOG_DRAFT_APPROACHES: '1' };
+    const input = failure('npm test', 'TypeError: x is not a function');
+    const first = JSON.parse(runHook('post-tool-use.sh', input, env));
+    assert.match(
+      first.systemMessage,
+      /Logged this failure as an approach on P-2 "E2E suite cannot boot the app"/,
+    );
+    // The same failure again is recognized, but not recorded twice
+    const again = JSON.parse(runHook('post-tool-use.sh', input, env));
+    assert.match(
+      again.systemMessage,
+      /- in P-2 "E2E suite cannot boot the app" \(still open\)/,
+    );
+    assert.doesNotMatch(again.systemMessage, /Logged this failure/);
+
+    const events = fs
+      .readFileSync(path.join(store, 'events.jsonl'), 'utf-8')
+      .trim()
+      .split('\n')
+      .map((l) => JSON.parse(l))
+      .filter((e) => e.type === 'approach_logged' && e.session_id === session);
+    assert.equal(events.length, 1);
+    assert.deepEqual(events[0].approach.commands, ['npm test']);
+    assert.equal(
+      events[0].approach.error_signature,
+      'TypeError: x is not a function',
+    );
+  });
 });
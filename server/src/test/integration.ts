@@ -33,17 +33,29 @@ describe('decision-log MCP server', () => {
     fs.rmSync(storageDir(tmpDir), { recursive: true, force: true });
   });
 
-  test('lists all 7 tools', async () => {
+  test('lists all 19 tools', async () => {
     const tools = await client.listTools();
     const names = tools.tools.map((t) => t.name).sort();
     assert.deepEqual(names, [
+      'check_approach',
       'close_problem',
+      'decisions_for_path',
+      'deprecate_decision',
+      'export_decisions',
       'get_context',
+      'import_decisions',
       'list_problems',
+      'list_sessions',
       'log_approach',
       'log_decision',
       'open_problem',
+      'project_stats',
+      'resume_problem',
+      'revise_decision',
       'search_decisions',
+      'search_problems',
+      'session_report',
+      'supersede_decision',
     ]);
   });
 
@@ -69,6 +81,21 @@ describe('decision-log MCP server', () => {
     );
     assert.match(result, /Database choice/);
     assert.match(result, /SQLite/);
+
+    // Surfaced decisions are counted for the SessionStart digest, outside
+    // the event log
+    const counts = JSON.parse(
+      fs.readFileSync(
+        path.join(storageDir(tmpDir), 'references.json'),
+        'utf-8',
+      ),
+    );
+    assert.deepEqual(Object.values(counts), [1]);
+    const events = fs.readFileSync(
+      path.join(storageDir(tmpDir), 'events.jsonl'),
+      'utf-8',
+    );
+    assert.doesNotMatch(events, /"type":"decisions_referenced"/);
   });
 
   test('search_decisions by tags', async () => {
@@ -185,4 +212,89 @@ describe('decision-log MCP server', () => {
     );
     assert.match(result, /Found 2 decision/);
   });
+
+  test('search_decisions pages results and requires all tags', async () => {
+    const page = text(
+      await callTool(client, 'search_decisions', {
+        tags: ['architecture'],
+        sort: 'newest',
+        limit: 1,
+      }),
+    );
+    assert.match(page, /Found 2 decision\(s\) \(showing 1–1\)/);
+    assert.match(page, /Auth token format/);
+    assert.doesNotMatch(page, /Database choice/);
+    assert.match(page, /1 more — pass offset: 1/);
+
+    const allTags = text(
+      await callTool(client, 'search_decisions', {
+        tags: ['architecture', 'auth'],
+        tag_mode: 'all',
+      }),
+    );
+    assert.match(allTags, /Found 1 decision/);
+    assert.match(allTags, /Auth token format/);
+  });
+
+  test('search_decisions rejects malformed dates', async () => {
+    const result = await callTool(client, 'search_decisions', {
+      since: 'last tuesday',
+    });
+    assert.ok(result.isError);
+  });
+
+  test('search_decisions ranks multi-word queries by relevance', async () => {
+    const result = text(
+      await callTool(client, 'search_decisions', {
+        query: 'auth tokens database',
+      }),
+    );
+    assert.match(result, /Found 2 decision/);
+    assert.ok(
+      result.indexOf('Auth token format') < result.indexOf('Database choice'),
+    );
+  });
+
+  test('list_sessions shows this session with its activity', async () => {
+    const result = text(await callTool(client, 'list_sessions'));
+    assert.match(
+      result,
+      /^1 session\(s\):\n\n- \d{4}-\d\d-\d\d \d\d:\d\d \S+ \(this session\) — 2 decision\(s\), 1 problem\(s\), last active /,
+    );
+  });
+
+  test('session_report summarizes this session as Markdown', async () => {
+    const result = text(await callTool(client, 'session_report'));
+    assert.match(result, /^# Session \S+\n/);
+    assert.match(
+      result,
+      /## Decisions\n\n- \*\*D-1 Database choice\*\*: chose SQLite/,
+    );
+    assert.match(
+      result,
+      /## Resolved\n\n- \*\*P-1 Auth tests failing with 401\*\* — resolved in <1m \(2 approaches, 1 failed\)/,
+    );
+
+    const missing = await callTool(client, 'session_report', {
+      session_id: 'no-such-session',
+    });
+    assert.ok(missing.isError);
+    assert.match(
+      text(missing),
+      /Session not found: no-such-session\nRecent sessions:/,
+    );
+  });
+
+  test('project_stats aggregates the project as text or JSON', async () => {
+    const summary = text(await callTool(client, 'project_stats'));
+    assert.match(summary, /^Project stats across 1 session\(s\)/);
+    assert.match(summary, /Problems: 1 opened, 1 resolved, 0 still open/);
+
+    const stats = JSON.parse(
+      text(await callTool(client, 'project_stats', { format: 'json' })),
+    );
+    assert.deepEqual(stats.problems, { opened: 1, resolved: 1, open: 0 });
+    assert.equal(stats.medianApproachesBeforeSuccess, 1);
+    assert.equal(stats.decisionsPerWeek.length, 1);
+  });
 });
@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, beforeEach, describe, test } from 'node:test';
+import { SCHEMA_VERSION } from '../migrations.js';
+import { Storage } from '../storage.js';
+import { makeDecision, storageDir } from './helpers.js';
+
+function line(event: object): string {
+  return `${JSON.stringify({ at: '2025-01-01T00:00:00.000Z', session_id: 'old', ...event })}\n`;
+}
+
+// Capture what the storage layer reports on stderr while `fn` runs.
+function stderrOf(fn: () => void): string {
+  const write = process.stderr.write;
+  let out = '';
+  process.stderr.write = ((chunk: string) => {
+    out += chunk;
+    return true;
+  }) as typeof process.stderr.write;
+  try {
+    fn();
+  } finally {
+    process.stderr.write = write;
+  }
+  return out;
+}
+
+describe('schema versions and migrations', () => {
+  const tmpProject = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-migrations-')),
+  );
+  const projectDir = storageDir(tmpProject);
+  const eventsFile = path.join(projectDir, 'events.jsonl');
+  const storeFile = path.join(projectDir, 'store.json');
+  const legacyId = randomUUID();
+  const problemId = randomUUID();
+
+  beforeEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+    fs.mkdirSync(projectDir, { recursive: true });
+  });
+
+  after(() => {
+    fs.rmSync(tmpProject, { recursive: true, force: true });
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  // An event log from before store.json and stored short IDs
+  function writeVersion2Log(): string {
+    const content = [
+      line({
+        type: 'decision_logged',
+        decision: {
+          ...makeDecision({ id: legacyId, topic: 'Old decision' }),
+          future: 1,
+        },
+      }),
+      line({
+        type: 'problem_opened',
+        problem: {
+          id: problemId,
+          session_id: 'old',
+          problem: 'Old problem',
+          created_at: '2025-01-01T00:00:00.000Z',
+        },
+      }),
+      line({ type: 'decision_revised', decision_id: legacyId }),
+      '{"type":"decision_logged","at":"20\n',
+    ].join('');
+    fs.writeFileSync(eventsFile, content);
+    return content;
+  }
+
+  test('a new store records the current version on first write', () => {
+    const storage = new Storage(tmpProject, 'session-1');
+    storage.addDecision(makeDecision({ topic: 'First' }));
+    assert.deepEqual(JSON.parse(fs.readFileSync(storeFile, 'utf-8')), {
+      schema_version: SCHEMA_VERSION,
+    });
+  });
+
+  test('an older log is upgraded in place, with a backup', () => {
+    const original = writeVersion2Log();
+    const storage = new Storage(tmpProject, 'session-1');
+    stderrOf(() => storage.addDecision(makeDecision({ topic: 'New' })));
+
+    assert.equal(
+      JSON.parse(fs.readFileSync(storeFile, 'utf-8')).schema_version,
+      SCHEMA_VERSION,
+    );
+    assert.equal(fs.readFileSync(`${eventsFile}.v2.bak`, 'utf-8'), original);
+    const upgraded = fs.readFileSync(eventsFile, 'utf-8').split('\n');
+    assert.equal(JSON.parse(upgraded[0]).decision.short_id, 'D-1');
+    assert.equal(JSON.parse(upgraded[1]).problem.short_id, 'P-1');
+    // Records that don't validate are kept on disk untouched
+    assert.equal(upgraded[2], original.split('\n')[2]);
+    assert.equal(upgraded[3], '{"type":"decision_logged","at":"20');
+
+    const decisions = storage.readDecisions();
+    assert.deepEqual(
+      decisions.map((d) => d.short_id),
+      ['D-1', 'D-2'],
+    );
+    // Fields from a newer version survive
+    assert.equal((decisions[0] as Record<string, unknown>).future, 1);
+  });
+
+  test('invalid records are reported, not silently dropped', () => {
+    writeVersion2Log();
+    const storage = new Storage(tmpProject, 'session-1');
+    const stderr = stderrOf(() => storage.readDecisions());
+    assert.match(
+      stderr,
+      /skipping invalid record at .*events\.jsonl:3 \(changes: .+\)/,
+    );
+    assert.match(stderr, /events\.jsonl:4 \(not valid JSON\)/);
+
+    const report = storage.checkStore();
+    assert.equal(report.schemaVersion, 2);
+    assert.deepEqual(
+      report.invalid.map((r) => r.line),
+      [3, 4],
+    );
+  });
+
+  test('a store from a newer version is not written to', () => {
+    writeVersion2Log();
+    fs.writeFileSync(storeFile, JSON.stringify({ schema_version: 99 }));
+    const before = fs.readFileSync(eventsFile, 'utf-8');
+    const storage = new Storage(tmpProject, 'session-1');
+
+    assert.throws(
+      () => stderrOf(() => storage.addDecision(makeDecision({ topic: 'New' }))),
+      /written by a newer decision-log \(schema version 99/,
+    );
+    assert.equal(fs.readFileSync(eventsFile, 'utf-8'), before);
+    stderrOf(() => assert.equal(storage.readDecisions().length, 1));
+  });
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { openChildren, problemTree, relationNote } from '../problem-tree.js';
+import { makeProblem } from './helpers.js';
+
+const ci = makeProblem({ id: '1', short_id: 'P-1' });
+const db = makeProblem({ id: '2', short_id: 'P-2', parent_id: '1' });
+const other = makeProblem({ id: '3', short_id: 'P-3' });
+const lint = makeProblem({
+  id: '4',
+  short_id: 'P-4',
+  parent_id: '1',
+  blocked_by: ['2'],
+});
+const schema = makeProblem({ id: '5', short_id: 'P-5', parent_id: '2' });
+
+describe('problem tree', () => {
+  test('puts sub-problems under their parent, keeping sibling order', () => {
+    const tree = problemTree([ci, db, other, lint, schema]);
+    assert.deepEqual(
+      tree.map((n) => [n.problem.id, n.depth]),
+      [
+        ['1', 0],
+        ['2', 1],
+        ['5', 2],
+        ['4', 1],
+        ['3', 0],
+      ],
+    );
+  });
+
+  test('a problem whose parent is not listed is a root', () => {
+    const tree = problemTree([db, schema]);
+    assert.deepEqual(
+      tree.map((n) => [n.problem.id, n.depth]),
+      [
+        ['2', 0],
+        ['5', 1],
+      ],
+    );
+  });
+
+  test('a parent cycle still lists every problem once', () => {
+    const a = makeProblem({ id: 'a', parent_id: 'b' });
+    const b = makeProblem({ id: 'b', parent_id: 'a' });
+    const tree = problemTree([a, b]);
+    assert.equal(tree.length, 2);
+    assert.deepEqual(tree.map((n) => n.problem.id).sort(), ['a', 'b']);
+  });
+
+  test('openChildren ignores resolved sub-problems', () => {
+    const resolved = makeProblem({
+      id: '6',
+      parent_id: '1',
+      status: 'resolved',
+    });
+    const children = openChildren([ci, db, lint, resolved, schema], '1');
+    assert.deepEqual(
+      children.map((p) => p.id),
+      ['2', '4'],
+    );
+  });
+
+  test('relation notes name open blockers and parents not shown above', () => {
+    const all = [ci, db, lint, schema];
+    assert.equal(
+      relationNote({ problem: lint, depth: 1 }, all),
+      ' (blocked by P-2)',
+    );
+    assert.equal(
+      relationNote({ problem: lint, depth: 0 }, all),
+      ' (sub-problem of P-1; blocked by P-2)',
+    );
+    const solved = { ...db, status: 'resolved' as const };
+    assert.equal(
+      relationNote({ problem: lint, depth: 1 }, [ci, solved, lint]),
+      '',
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  median,
+  projectStats,
+  renderProjectStats,
+  weekOf,
+} from '../project-stats.js';
+import { makeApproach, makeDecision, makeProblem } from './helpers.js';
+
+// Every problem opens at 09:00
+const opened = '2025-03-04T09:00:00.000Z';
+
+const problems = [
+  makeProblem({
+    id: 'a',
+    problem: 'a',
+    created_at: opened,
+    status: 'resolved',
+    resolved_at: '2025-03-04T10:00:00.000Z',
+    approaches: [
+      makeApproach({
+        outcome: 'failed',
+        error_signature: 'TypeError: x is not a function',
+      }),
+      makeApproach({
+        outcome: 'failed',
+        details:
+          'Crashed with\nTypeError: x is not a function\n  at y (/src/a.ts:3:1)',
+      }),
+      makeApproach({ outcome: 'succeeded' }),
+    ],
+  }),
+  makeProblem({
+    id: 'b',
+    problem: 'b',
+    created_at: opened,
+    status: 'resolved',
+    resolved_at: '2025-03-04T12:00:00.000Z',
+    approaches: [makeApproach({ outcome: 'succeeded' })],
+  }),
+  makeProblem({
+    id: 'c',
+    problem: 'c',
+    created_at: opened,
+    approaches: [
+      makeApproach({
+        outcome: 'failed',
+        error_signature: 'ECONNREFUSED',
+      }),
+    ],
+  }),
+];
+const decisions = [
+  makeDecision({ timestamp: '2025-03-03T08:00:00.000Z', tags: ['db', 'API'] }),
+  makeDecision({ timestamp: '2025-03-09T23:00:00.000Z', tags: ['api'] }),
+  makeDecision({ timestamp: '2025-03-19T08:00:00.000Z' }),
+];
+
+describe('project stats', () => {
+  test('median and week helpers', () => {
+    assert.equal(median([]), null);
+    assert.equal(median([3, 1, 2]), 2);
+    assert.equal(median([4, 1, 2, 3]), 2.5);
+    assert.equal(weekOf('2025-03-03T08:00:00.000Z'), '2025-03-03');
+    assert.equal(weekOf('2025-03-09T23:00:00.000Z'), '2025-03-03');
+    assert.equal(weekOf('2025-03-10T00:00:00.000Z'), '2025-03-10');
+    assert.equal(weekOf('2025-03-10T01:00:00+02:00'), '2025-03-03');
+    assert.equal(weekOf('March 12, 2025 10:00 UTC'), '2025-03-10');
+  });
+
+  test('aggregates problems, failures, tags and weeks', () => {
+    const stats = projectStats({ decisions, problems }, 4);
+    assert.deepEqual(stats.problems, { opened: 3, resolved: 2, open: 1 });
+    assert.equal(stats.failedApproaches, 3);
+    assert.equal(stats.medianApproachesBeforeSuccess, 1);
+    assert.equal(stats.problemsWithSuccess, 2);
+    assert.equal(stats.medianResolutionMs, 2 * 60 * 60 * 1000);
+    assert.deepEqual(stats.failureSignatures, [
+      { value: 'TypeError: x is not a function', count: 2 },
+      { value: 'ECONNREFUSED', count: 1 },
+    ]);
+    assert.deepEqual(stats.tags, [
+      { value: 'api', count: 2 },
+      { value: 'db', count: 1 },
+    ]);
+    assert.deepEqual(stats.decisionsPerWeek, [
+      { week: '2025-03-03', decisions: 2 },
+      { week: '2025-03-10', decisions: 0 },
+      { week: '2025-03-17', decisions: 1 },
+    ]);
+  });
+
+  test('counts decisions per week over a recent window only', () => {
+    const { decisionsPerWeek } = projectStats(
+      {
+        decisions: [
+          makeDecision({ timestamp: '2019-06-01T00:00:00.000Z' }),
+          ...decisions,
+        ],
+        problems: [],
+      },
+      1,
+    );
+    assert.equal(decisionsPerWeek.length, 8);
+    assert.deepEqual(decisionsPerWeek.at(0), {
+      week: '2025-01-27',
+      decisions: 0,
+    });
+    assert.deepEqual(decisionsPerWeek.at(-1), {
+      week: '2025-03-17',
+      decisions: 1,
+    });
+  });
+
+  test('renders as text', () => {
+    const text = renderProjectStats(projectStats({ decisions, problems }, 4));
+    assert.match(text, /^Project stats across 4 session\(s\)\n/);
+    assert.match(
+      text,
+      /Problems: 3 opened, 2 resolved, 1 still open; 3 failed approach\(es\)/,
+    );
+    assert.match(
+      text,
+      /Median approaches before success: 1 \(over 2 problem\(s\)\)/,
+    );
+    assert.match(text, /Median time to resolution: 2h \(over 2 problem\(s\)\)/);
+    assert.match(
+      text,
+      /Most common failures:\n- 2× TypeError: x is not a function\n- 1× ECONNREFUSED/,
+    );
+    assert.match(
+      text,
+      /Decisions per week \(last 3, 1\.0 on average\):\n- week of 2025-03-03: 2/,
+    );
+  });
+
+  test('an empty project has nothing to average', () => {
+    const text = renderProjectStats(
+      projectStats({ decisions: [], problems: [] }, 0),
+    );
+    assert.match(text, /no approach has succeeded yet/);
+    assert.match(text, /no resolved problem with a recorded close time/);
+    assert.doesNotMatch(text, /Decisions per week/);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseQuery, rank, stem, tokenize } from '../search.js';
+
+interface Doc {
+  topic: string;
+  body: string;
+}
+
+const FIELDS = [
+  { weight: 4, text: (d: Doc) => d.topic },
+  { weight: 1, text: (d: Doc) => d.body },
+];
+
+const docs: Doc[] = [
+  { topic: 'Logging format', body: 'Use JSON lines; mention token refresh' },
+  { topic: 'Auth token refresh', body: 'Refresh tokens rotate every hour' },
+  { topic: 'Session storage', body: 'Sessions hold the auth token in Redis' },
+  { topic: 'JWT signing keys', body: 'Auth tokens are signed JWTs' },
+];
+
+describe('search', () => {
+  test('stemming conflates inflections', () => {
+    assert.equal(stem('refreshing'), stem('refreshed'));
+    assert.equal(stem('tokens'), stem('token'));
+    assert.equal(stem('caching'), stem('cache'));
+    assert.equal(stem('stopped'), 'stop');
+    assert.deepEqual(tokenize('Caching, SQLite!'), ['cach', 'sqlit']);
+  });
+
+  test('parseQuery separates terms, phrases and exclusions', () => {
+    assert.deepEqual(parseQuery('the auth "token refresh" -jwt -"api key"'), {
+      terms: ['auth'],
+      phrases: [['token', 'refresh']],
+      excludedTerms: ['jwt'],
+      excludedPhrases: [['api', 'key']],
+    });
+    // A query of only stopwords still searches for them
+    assert.deepEqual(parseQuery('the').terms, ['the']);
+  });
+
+  test('multi-word queries match any word, best match first', () => {
+    const results = rank(docs, 'auth token refresh', FIELDS);
+    assert.equal(results.length, 4);
+    assert.equal(results[0].item.topic, 'Auth token refresh');
+    assert.ok(results[0].score > results[1].score);
+  });
+
+  test('topic matches outrank body matches', () => {
+    const results = rank(docs, 'logging', FIELDS);
+    assert.equal(results[0].item.topic, 'Logging format');
+
+    const [first, second] = rank(
+      [
+        { topic: 'Other', body: 'session' },
+        { topic: 'Session', body: 'other' },
+      ],
+      'session',
+      FIELDS,
+    );
+    assert.equal(first.item.topic, 'Session');
+    assert.ok(first.score > second.score);
+  });
+
+  test('phrases are required and exclusions remove matches', () => {
+    const phrase = rank(docs, '"token refresh"', FIELDS).map(
+      (r) => r.item.topic,
+    );
+    assert.deepEqual(phrase, ['Auth token refresh', 'Logging format']);
+
+    const excluded = rank(docs, 'auth -jwt -"refresh tokens"', FIELDS).map(
+      (r) => r.item.topic,
+    );
+    assert.deepEqual(excluded, ['Session storage']);
+  });
+
+  test('an empty query returns everything in order', () => {
+    assert.deepEqual(
+      rank(docs, '', FIELDS).map((r) => r.item.topic),
+      docs.map((d) => d.topic),
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import {
+  claimSessionHandoff,
+  hookClaudePids,
+  writeSessionHandoff,
+} from '../session-handoff.js';
+
+// Claude sessions started from shells in one tmux server (pid 50):
+//   tmux 50 ─ shell 900  ─ claude 1001 ─ hook
+//           │            └ claude 3001 ─ hook
+//           └ shell 1900 ─ claude 2001 ─ hook
+function handoff(sessionId: string, claudePids: number[]) {
+  return {
+    session_id: sessionId,
+    cwd: '/project',
+    created_at: new Date().toISOString(),
+    claude_pids: claudePids,
+  };
+}
+
+describe('session handoff', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), '.test-handoff-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('records the processes that may be Claude Code', () => {
+    const pids = hookClaudePids();
+    assert.equal(pids[0], process.ppid);
+    assert.ok(pids.length <= 2);
+  });
+
+  test('sessions sharing only a distant ancestor do not cross', () => {
+    writeSessionHandoff(projectDir, handoff('session-a', [1001, 900]));
+    writeSessionHandoff(projectDir, handoff('session-b', [2001, 1900]));
+
+    const serverB = { ancestors: [2001, 1900, 50] };
+    assert.equal(
+      claimSessionHandoff(projectDir, serverB)?.session_id,
+      'session-b',
+    );
+    assert.equal(claimSessionHandoff(projectDir, serverB), null);
+    assert.equal(claimSessionHandoff(projectDir, { ancestors: [50] }), null);
+    assert.equal(
+      claimSessionHandoff(projectDir, { ancestors: [1001, 900, 50] })
+        ?.session_id,
+      'session-a',
+    );
+  });
+
+  test('matches a hook run under a shell by its grandparent', () => {
+    writeSessionHandoff(projectDir, handoff('session-a', [3500, 1001]));
+    assert.equal(
+      claimSessionHandoff(projectDir, { ancestors: [1001, 900, 50] })
+        ?.session_id,
+      'session-a',
+    );
+  });
+
+  test('matches a server started through a launcher', () => {
+    writeSessionHandoff(projectDir, handoff('session-a', [1001, 900]));
+    writeSessionHandoff(projectDir, handoff('session-b', [2001, 1900]));
+    // npx 7001 ─ server, under claude 2001
+    assert.equal(
+      claimSessionHandoff(projectDir, { ancestors: [7001, 2001, 1900] })
+        ?.session_id,
+      'session-b',
+    );
+  });
+
+  test('the nearest ancestor wins when sessions share a shell', () => {
+    writeSessionHandoff(projectDir, handoff('session-a', [1001, 900]));
+    writeSessionHandoff(projectDir, handoff('session-c', [3001, 900]));
+    assert.equal(
+      claimSessionHandoff(projectDir, { ancestors: [3001, 900, 50] })
+        ?.session_id,
+      'session-c',
+    );
+  });
+
+  test('falls back to a recent handoff only when it is the only one', () => {
+    const fallback = { ancestors: [2001], fallbackSince: Date.now() - 60_000 };
+    writeSessionHandoff(projectDir, handoff('session-a', [1001, 900]));
+    writeSessionHandoff(projectDir, handoff('session-c', [3001, 900]));
+    assert.equal(claimSessionHandoff(projectDir, fallback), null);
+
+    claimSessionHandoff(projectDir, { ancestors: [3001] });
+    assert.equal(claimSessionHandoff(projectDir, { ancestors: [2001] }), null);
+    assert.equal(
+      claimSessionHandoff(projectDir, fallback)?.session_id,
+      'session-a',
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  buildSessionReport,
+  findSession,
+  formatDuration,
+  renderSessionReport,
+} from '../session-report.js';
+import type { SessionMetadata } from '../types.js';
+import { makeApproach, makeDecision, makeProblem } from './helpers.js';
+
+const meta: SessionMetadata = {
+  session_id: 'a1b2c3',
+  project_slug: 'p',
+  cwd: '/p',
+  started_at: '2025-03-04T09:00:00.000Z',
+  git_branch: 'fix/login',
+  last_activity_at: '2025-03-04T11:30:00.000Z',
+};
+
+const decision = makeDecision({
+  id: 'd',
+  short_id: 'D-4',
+  timestamp: '2025-03-04T09:10:00.000Z',
+  session_id: 'a1b2c3',
+  topic: 'Session storage',
+  options: [
+    { name: 'Redis', description: '' },
+    { name: 'Postgres', description: '' },
+  ],
+  chosen: 'Redis',
+  rationale: 'Sessions must survive a deploy',
+});
+
+// Every problem opens at 09:30 and every approach is tried at 09:40
+const opened = '2025-03-04T09:30:00.000Z';
+const tried = '2025-03-04T09:40:00.000Z';
+
+const state = {
+  decisions: [decision, { ...decision, id: 'x', session_id: 'other' }],
+  problems: [
+    makeProblem({
+      id: '1',
+      short_id: 'P-1',
+      session_id: 'a1b2c3',
+      problem: 'Problem 1',
+      created_at: opened,
+      status: 'resolved',
+      resolution: 'Pinned the seed',
+      resolved_at: '2025-03-04T10:45:00.000Z',
+      approaches: [
+        makeApproach({ approach: 'Retry', timestamp: tried }),
+        makeApproach({
+          approach: 'Retry',
+          outcome: 'succeeded',
+          timestamp: tried,
+        }),
+      ],
+    }),
+    makeProblem({
+      id: '2',
+      short_id: 'P-2',
+      session_id: 'a1b2c3',
+      problem: 'Problem 2',
+      created_at: opened,
+      approaches: [
+        makeApproach({
+          approach: 'Bisect',
+          outcome: 'in_progress',
+          timestamp: tried,
+        }),
+      ],
+    }),
+    makeProblem({
+      id: '3',
+      short_id: 'P-3',
+      session_id: 'other',
+      problem: 'Problem 3',
+      created_at: opened,
+    }),
+  ],
+};
+
+describe('session report', () => {
+  test('formats durations', () => {
+    assert.equal(formatDuration(20_000), '<1m');
+    assert.equal(formatDuration(45 * 60_000), '45m');
+    assert.equal(formatDuration(125 * 60_000), '2h 5m');
+    assert.equal(formatDuration(2 * 3600_000), '2h');
+    assert.equal(formatDuration((3 * 24 + 4) * 3600_000), '3d 4h');
+  });
+
+  test('finds a session by id or unique prefix', () => {
+    const sessions = [meta, { ...meta, session_id: 'a1ff00' }];
+    assert.equal(findSession(sessions, 'a1b')?.match?.session_id, 'a1b2c3');
+    assert.equal(findSession(sessions, 'a1').candidates.length, 2);
+    assert.equal(findSession(sessions, 'a1').match, null);
+    assert.deepEqual(findSession(sessions, 'zz').candidates, []);
+  });
+
+  test('covers only the session, with times and counts', () => {
+    const report = buildSessionReport('a1b2c3', meta, state);
+    assert.deepEqual(
+      report.decisions.map((d) => d.id),
+      ['d'],
+    );
+    assert.deepEqual(
+      report.resolved.map((p) => p.id),
+      ['1'],
+    );
+    assert.deepEqual(
+      report.unresolved.map((p) => p.id),
+      ['2'],
+    );
+    assert.equal(report.failedApproaches, 1);
+    assert.equal(report.ended_at, meta.last_activity_at);
+
+    assert.equal(
+      renderSessionReport(report),
+      [
+        '# Session a1b2c3',
+        '',
+        '2025-03-04 09:00 – 2025-03-04 11:30 (2h 30m) · branch `fix/login`',
+        '',
+        '1 decision(s); 2 problem(s), 1 resolved and 1 still open; 1 failed approach(es).',
+        '',
+        '## Decisions',
+        '',
+        '- **D-4 Session storage**: chose Redis over Postgres — Sessions must survive a deploy',
+        '',
+        '## Resolved',
+        '',
+        '- **P-1 Problem 1** — resolved in 1h 15m (2 approaches, 1 failed): Pinned the seed',
+        '',
+        '## Unresolved',
+        '',
+        '- **P-2 Problem 2** — 1 approach, 0 failed; last tried: Bisect (in progress)',
+      ].join('\n'),
+    );
+  });
+
+  test('falls back to recorded activity without metadata', () => {
+    const report = buildSessionReport('a1b2c3', null, state);
+    assert.equal(report.started_at, null);
+    assert.equal(report.last_activity_at, '2025-03-04T10:45:00.000Z');
+    assert.match(
+      renderSessionReport(report),
+      /^# Session a1b2c3\n\n2025-03-04 10:45\n/,
+    );
+  });
+});
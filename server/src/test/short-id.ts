@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { resolveId, shortIdNumber } from '../short-id.js';
+
+const items = [
+  { id: 'a1b2c3d4-0000-4000-8000-000000000001', short_id: 'D-1' },
+  { id: 'a1b2ffff-0000-4000-8000-000000000002', short_id: 'D-2' },
+  { id: '12345678-0000-4000-8000-000000000003', short_id: 'D-12' },
+];
+
+describe('resolveId', () => {
+  test('full IDs, short IDs and bare numbers', () => {
+    assert.equal(resolveId(items, items[1].id, 'D').match, items[1]);
+    for (const ref of ['D-12', 'd-12', 'D12', '#12', '12', ' 12 ']) {
+      assert.equal(resolveId(items, ref, 'D').match, items[2], ref);
+    }
+  });
+
+  test('a short ID number wins over a UUID prefix made of digits', () => {
+    assert.equal(resolveId(items, '1', 'D').match, items[0]);
+    assert.equal(resolveId(items, '1234', 'D').match, items[2]);
+  });
+
+  test('the other kind of short ID does not match', () => {
+    assert.deepEqual(resolveId(items, 'P-1', 'D').candidates, []);
+  });
+
+  test('prefixes are case-insensitive and may be ambiguous', () => {
+    assert.equal(resolveId(items, 'A1B2C', 'D').match, items[0]);
+    const lookup = resolveId(items, 'a1b2', 'D');
+    assert.equal(lookup.match, null);
+    assert.deepEqual(lookup.candidates, [items[0], items[1]]);
+    assert.deepEqual(resolveId(items, '', 'D').candidates, []);
+  });
+
+  test('shortIdNumber', () => {
+    assert.equal(shortIdNumber('P-7'), 7);
+    assert.equal(shortIdNumber('X-7'), 0);
+    assert.equal(shortIdNumber(undefined), 0);
+  });
+});
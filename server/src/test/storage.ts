@@ -0,0 +1,618 @@
+import assert from 'node:assert/strict';
+import { execFileSync, spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { Storage } from '../storage.js';
+import { makeDecision, storageDir } from './helpers.js';
+
+const STORAGE_MODULE = path.resolve(import.meta.dirname, '..', 'storage.js');
+
+// Log `count` decisions from a separate process, like a parallel session.
+function logFromChild(cwd: string, writer: number, count: number) {
+  const script = `
+    import { randomUUID } from 'node:crypto';
+    import { Storage } from ${JSON.stringify(STORAGE_MODULE)};
+    const storage = new Storage(process.cwd(), randomUUID());
+    for (let i = 0; i < ${count}; i++) {
+      storage.addDecision({
+        id: randomUUID(),
+        timestamp: new Date().toISOString(),
+        session_id: storage.getSessionId(),
+        topic: 'writer ${writer} #' + i,
+        options: [],
+        chosen: 'x',
+        rationale: 'y',
+        tags: [],
+      });
+    }
+  `;
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn('node', ['--input-type=module', '-e', script], {
+      cwd,
+      stdio: ['ignore', 'ignore', 'inherit'],
+    });
+    child.on('error', reject);
+    child.on('exit', (code) =>
+      code === 0 ? resolve() : reject(new Error(`writer exited ${code}`)),
+    );
+  });
+}
+
+describe('storage durability', () => {
+  const tmpProject = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-storage-')),
+  );
+  const projectDir = storageDir(tmpProject);
+  const eventsPath = path.join(projectDir, 'events.jsonl');
+
+  before(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  after(() => {
+    fs.rmSync(tmpProject, { recursive: true, force: true });
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('parallel writers do not lose decisions', async () => {
+    await Promise.all([0, 1, 2, 3].map((w) => logFromChild(tmpProject, w, 25)));
+
+    const storage = new Storage(tmpProject, randomUUID());
+    const topics = storage.readDecisions().map((d) => d.topic);
+    assert.equal(topics.length, 100);
+    assert.equal(new Set(topics).size, 100);
+    const shortIds = storage.readDecisions().map((d) => d.short_id);
+    assert.equal(new Set(shortIds).size, 100);
+    assert.ok(!fs.existsSync(`${eventsPath}.lock`));
+  });
+
+  test('a torn final event is skipped, not glued to the next one', () => {
+    fs.appendFileSync(eventsPath, '{"type":"decision_logged","at":"20');
+
+    const storage = new Storage(tmpProject, randomUUID());
+    assert.equal(storage.readDecisions().length, 100);
+
+    storage.addDecision(
+      makeDecision({
+        topic: 'After the crash',
+        session_id: storage.getSessionId(),
+        timestamp: new Date().toISOString(),
+      }),
+    );
+    const topics = storage.readDecisions().map((d) => d.topic);
+    assert.equal(topics.length, 101);
+    assert.equal(topics.at(-1), 'After the crash');
+  });
+
+  test('a corrupt legacy file is quarantined, not overwritten', () => {
+    const legacy = path.join(projectDir, 'decisions.json');
+    fs.writeFileSync(legacy, '[{"id": "trunc');
+
+    const storage = new Storage(tmpProject, randomUUID());
+    assert.equal(storage.readDecisions().length, 101);
+
+    const quarantined = fs
+      .readdirSync(projectDir)
+      .filter((f) => f.startsWith('decisions.json.corrupt-'));
+    assert.equal(quarantined.length, 1);
+    assert.equal(
+      fs.readFileSync(path.join(projectDir, quarantined[0]), 'utf-8'),
+      '[{"id": "trunc',
+    );
+  });
+
+  test('a stale lock from a dead process is broken', () => {
+    fs.writeFileSync(`${eventsPath}.lock`, '999999999\n');
+    const storage = new Storage(tmpProject, randomUUID());
+    storage.addDecision(
+      makeDecision({
+        topic: 'Past the stale lock',
+        session_id: storage.getSessionId(),
+        timestamp: new Date().toISOString(),
+      }),
+    );
+    assert.equal(storage.readDecisions().length, 102);
+    assert.deepEqual(
+      fs.readdirSync(projectDir).filter((f) => f.includes('.lock')),
+      [],
+    );
+  });
+
+  test('listing sessions and checking the store leave bad files in place', () => {
+    const storage = new Storage(tmpProject, randomUUID());
+    const broken = path.join(projectDir, 'sessions', 'broken');
+    fs.mkdirSync(broken, { recursive: true });
+    fs.writeFileSync(path.join(broken, 'metadata.json'), '{"session_id":');
+    fs.writeFileSync(path.join(projectDir, 'store.json'), '{}');
+
+    const listed = storage.listSessions();
+    assert.ok(listed.length > 0);
+    assert.ok(listed.every((s) => s.session_id !== 'broken'));
+    storage.checkStore();
+    assert.deepEqual(fs.readdirSync(broken), ['metadata.json']);
+    assert.equal(
+      fs.readFileSync(path.join(projectDir, 'store.json'), 'utf-8'),
+      '{}',
+    );
+  });
+
+  test('reference counts that cannot be saved are reported, not thrown', (t) => {
+    const storage = new Storage(tmpProject, randomUUID());
+    const [first] = storage.readDecisions();
+    fs.mkdirSync(path.join(projectDir, 'references.json'));
+    const stderr = t.mock.method(process.stderr, 'write', () => true);
+
+    storage.noteReferences([first.id]);
+    assert.match(
+      String(stderr.mock.calls[0].arguments[0]),
+      /could not record decision references/,
+    );
+    assert.equal(storage.getDecision(first.id)?.reference_count, undefined);
+  });
+});
+
+describe('event log', () => {
+  const tmpProject = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-events-')),
+  );
+  const projectDir = storageDir(tmpProject);
+  const legacySession = randomUUID();
+  const problemId = randomUUID();
+
+  before(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+    const sessionDir = path.join(projectDir, 'sessions', legacySession);
+    fs.mkdirSync(sessionDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(projectDir, 'decisions.json'),
+      JSON.stringify([
+        makeDecision({
+          topic: 'Legacy decision',
+          session_id: legacySession,
+        }),
+      ]),
+    );
+    fs.writeFileSync(
+      path.join(sessionDir, 'problems.json'),
+      JSON.stringify([
+        {
+          id: problemId,
+          session_id: legacySession,
+          problem: 'Legacy problem',
+          status: 'resolved',
+          created_at: '2025-01-01T00:00:00.000Z',
+          approaches: [
+            {
+              approach: 'Old approach',
+              outcome: 'succeeded',
+              details: 'Worked',
+              timestamp: '2025-01-02T00:00:00.000Z',
+            },
+          ],
+          resolution: 'Fixed long ago',
+        },
+      ]),
+    );
+  });
+
+  after(() => {
+    fs.rmSync(tmpProject, { recursive: true, force: true });
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('legacy JSON files are readable before migration', () => {
+    const storage = new Storage(tmpProject, legacySession);
+    assert.deepEqual(
+      storage.readDecisions().map((d) => d.topic),
+      ['Legacy decision'],
+    );
+    assert.equal(storage.getProblem(problemId)?.resolution, 'Fixed long ago');
+  });
+
+  test('the first write migrates legacy files into the stream', () => {
+    const storage = new Storage(tmpProject, legacySession);
+    storage.addDecision(
+      makeDecision({
+        topic: 'New decision',
+        session_id: legacySession,
+        timestamp: new Date().toISOString(),
+      }),
+    );
+
+    assert.ok(fs.existsSync(path.join(projectDir, 'decisions.json.migrated')));
+    assert.ok(!fs.existsSync(path.join(projectDir, 'decisions.json')));
+    assert.ok(
+      !fs.existsSync(
+        path.join(projectDir, 'sessions', legacySession, 'problems.json'),
+      ),
+    );
+
+    const problem = storage.getProblem(problemId);
+    assert.equal(problem?.status, 'resolved');
+    assert.equal(problem?.approaches.length, 1);
+    assert.deepEqual(
+      storage.readDecisions().map((d) => d.topic),
+      ['Legacy decision', 'New decision'],
+    );
+  });
+
+  test('writes append events instead of rewriting state', () => {
+    const storage = new Storage(tmpProject, legacySession);
+    const eventsFile = path.join(projectDir, 'events.jsonl');
+    const prior = fs.readFileSync(eventsFile, 'utf-8');
+
+    const id = randomUUID();
+    storage.addProblem({
+      id,
+      session_id: legacySession,
+      problem: 'Appended problem',
+      status: 'open',
+      created_at: new Date().toISOString(),
+      approaches: [],
+    });
+    storage.closeProblem(id, 'Done');
+
+    const current = fs.readFileSync(eventsFile, 'utf-8');
+    assert.ok(current.startsWith(prior));
+    const added = current.slice(prior.length).trim().split('\n');
+    assert.deepEqual(
+      added.map((line) => JSON.parse(line).type),
+      ['problem_opened', 'problem_closed'],
+    );
+  });
+
+  test('snapshot replays state as of a point in time', () => {
+    const storage = new Storage(tmpProject, legacySession);
+
+    const early = storage.snapshot('2025-01-01T12:00:00.000Z');
+    assert.deepEqual(
+      early.decisions.map((d) => d.topic),
+      ['Legacy decision'],
+    );
+    const p = early.problems.find((p) => p.id === problemId);
+    assert.equal(p?.status, 'open');
+    assert.equal(p?.approaches.length, 0);
+
+    const now = storage.snapshot();
+    assert.equal(now.decisions.length, 2);
+    assert.equal(now.problems.length, 2);
+  });
+
+  test('short IDs number records in log order and are never reused', () => {
+    const storage = new Storage(tmpProject, legacySession);
+    assert.deepEqual(
+      storage.readDecisions().map((d) => d.short_id),
+      ['D-1', 'D-2'],
+    );
+    assert.equal(storage.getProblem(problemId)?.short_id, 'P-1');
+
+    const second = storage.lookupDecision('D-2').match;
+    assert.ok(second);
+    storage.deleteDecision(second.id);
+    const added = storage.addDecision(
+      makeDecision({
+        topic: 'Third',
+        session_id: legacySession,
+        timestamp: new Date().toISOString(),
+      }),
+    );
+    assert.equal(added?.short_id, 'D-3');
+
+    for (const ref of ['D-3', 'd3', '#3', '3', added!.id.slice(0, 8)]) {
+      assert.equal(storage.lookupDecision(ref).match?.id, added?.id, ref);
+    }
+    assert.equal(storage.lookupDecision('D-2').candidates.length, 0);
+    assert.equal(storage.lookupProblem('1').match?.id, problemId);
+  });
+});
+
+describe('decision queries', () => {
+  const tmpProject = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-query-')),
+  );
+  const projectDir = storageDir(tmpProject);
+  let storage: Storage;
+
+  before(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+    storage = new Storage(tmpProject, 'session-a');
+    const fixtures: Array<[string, string, string, string[]]> = [
+      ['Cache layer', '2025-01-10T09:00:00.000Z', 'session-a', ['perf']],
+      ['Cache eviction', '2025-02-10T09:00:00.000Z', 'session-b', ['perf']],
+      ['Auth cache', '2025-03-10T09:00:00.000Z', 'session-b', ['perf', 'auth']],
+      ['Auth provider', '2025-03-31T18:00:00.000Z', 'session-c', ['auth']],
+    ];
+    for (const [topic, timestamp, sessionId, tags] of fixtures) {
+      storage.addDecision(
+        makeDecision({
+          topic,
+          timestamp,
+          session_id: sessionId,
+          tags,
+        }),
+      );
+    }
+  });
+
+  after(() => {
+    fs.rmSync(tmpProject, { recursive: true, force: true });
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  const topics = (q: Parameters<Storage['searchDecisions']>[0]) =>
+    storage.searchDecisions(q).decisions.map((d) => d.topic);
+
+  test('date ranges, with a bare until date covering the whole day', () => {
+    assert.deepEqual(topics({ since: '2025-02-01', until: '2025-03-31' }), [
+      'Cache eviction',
+      'Auth cache',
+      'Auth provider',
+    ]);
+    assert.deepEqual(topics({ until: '2025-01-10T08:59:59Z' }), []);
+  });
+
+  test('session filter', () => {
+    assert.deepEqual(topics({ sessionId: 'session-b' }), [
+      'Cache eviction',
+      'Auth cache',
+    ]);
+  });
+
+  test('tag modes', () => {
+    const tags = ['perf', 'auth'];
+    assert.equal(topics({ tags }).length, 4);
+    assert.deepEqual(topics({ tags, tagMode: 'all' }), ['Auth cache']);
+    assert.deepEqual(topics({ tags: ['auth'], tagMode: 'none' }), [
+      'Cache layer',
+      'Cache eviction',
+    ]);
+  });
+
+  test('sort order overrides relevance', () => {
+    assert.equal(topics({ query: 'cache' })[0], 'Cache layer');
+    assert.deepEqual(topics({ query: 'cache', sort: 'newest' }), [
+      'Auth cache',
+      'Cache eviction',
+      'Cache layer',
+    ]);
+  });
+
+  test('pagination reports the total before paging', () => {
+    const page = storage.searchDecisions({
+      sort: 'newest',
+      limit: 2,
+      offset: 1,
+    });
+    assert.equal(page.total, 4);
+    assert.deepEqual(
+      page.decisions.map((d) => d.topic),
+      ['Auth cache', 'Cache eviction'],
+    );
+  });
+});
+
+describe('repository decision store', () => {
+  const tmpRepo = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), '.test-repo-store-')),
+  );
+  const projectDir = storageDir(tmpRepo);
+  const decisionsDir = path.join(tmpRepo, '.decision-log', 'decisions');
+  let storage: Storage;
+
+  before(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+    execFileSync('git', ['init', '-q', tmpRepo]);
+    process.env.DECISION_LOG_STORE = 'repo';
+    try {
+      storage = new Storage(tmpRepo, 'session-a');
+    } finally {
+      delete process.env.DECISION_LOG_STORE;
+    }
+  });
+
+  after(() => {
+    fs.rmSync(tmpRepo, { recursive: true, force: true });
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  test('reading does not create the store', () => {
+    assert.deepEqual(storage.readDecisions(), []);
+    storage.checkStore();
+    assert.ok(!fs.existsSync(path.join(tmpRepo, '.decision-log')));
+  });
+
+  test('decisions get one file each; problems stay in the home directory', () => {
+    const d = makeDecision({
+      topic: 'Shared decision',
+      session_id: 'session-a',
+      timestamp: new Date().toISOString(),
+    });
+    storage.addDecision(d);
+    // The first write creates the store, with a union merge driver
+    assert.equal(
+      fs.readFileSync(
+        path.join(tmpRepo, '.decision-log', '.gitattributes'),
+        'utf-8',
+      ),
+      'decisions/*.jsonl merge=union\n',
+    );
+    storage.reviseDecision(d.id, { rationale: 'Reviewed in PR' });
+    storage.addProblem({
+      id: randomUUID(),
+      session_id: 'session-a',
+      problem: 'Private problem',
+      status: 'open',
+      created_at: new Date().toISOString(),
+      approaches: [],
+    });
+
+    const lines = fs
+      .readFileSync(path.join(decisionsDir, `${d.id}.jsonl`), 'utf-8')
+      .trim()
+      .split('\n');
+    assert.deepEqual(
+      lines.map((l) => JSON.parse(l).type),
+      ['decision_logged', 'decision_revised'],
+    );
+    const home = fs.readFileSync(
+      path.join(projectDir, 'events.jsonl'),
+      'utf-8',
+    );
+    assert.match(home, /Private problem/);
+    assert.doesNotMatch(home, /Shared decision/);
+  });
+
+  test("a teammate's decision file is picked up, in time order", () => {
+    const theirs = makeDecision({
+      topic: 'Teammate decision',
+      session_id: 'their-session',
+    });
+    fs.writeFileSync(
+      path.join(decisionsDir, `${theirs.id}.jsonl`),
+      `${JSON.stringify({ type: 'decision_logged', at: theirs.timestamp, session_id: 'their-session', decision: theirs })}\n`,
+    );
+
+    const decisions = storage.readDecisions();
+    assert.deepEqual(
+      decisions.map((d) => d.topic),
+      ['Teammate decision', 'Shared decision'],
+    );
+    assert.equal(decisions[1].rationale, 'Reviewed in PR');
+  });
+
+  test('an existing store is used automatically, unless told otherwise', () => {
+    assert.equal(new Storage(tmpRepo, 'session-b').readDecisions().length, 2);
+
+    process.env.DECISION_LOG_STORE = 'home';
+    try {
+      assert.equal(new Storage(tmpRepo, 'session-b').readDecisions().length, 0);
+    } finally {
+      delete process.env.DECISION_LOG_STORE;
+    }
+  });
+
+  test('decisions logged before the switch are changed in the home log', () => {
+    const before = makeDecision({
+      topic: 'Home-only decision',
+      session_id: 'session-a',
+    });
+    process.env.DECISION_LOG_STORE = 'home';
+    try {
+      new Storage(tmpRepo, 'session-a').addDecision(before);
+    } finally {
+      delete process.env.DECISION_LOG_STORE;
+    }
+
+    storage.reviseDecision(before.id, { rationale: 'Still applies' });
+    storage.deprecateDecision(before.id, 'Outgrown');
+
+    assert.ok(!fs.existsSync(path.join(decisionsDir, `${before.id}.jsonl`)));
+    const home = fs
+      .readFileSync(path.join(projectDir, 'events.jsonl'), 'utf-8')
+      .trim()
+      .split('\n')
+      .map((l) => JSON.parse(l))
+      .filter((e) => (e.decision?.id ?? e.decision_id) === before.id);
+    assert.deepEqual(
+      home.map((e) => e.type),
+      ['decision_logged', 'decision_revised', 'decision_deprecated'],
+    );
+    const revised = storage.getDecision(before.id);
+    assert.equal(revised?.rationale, 'Still applies');
+    assert.equal(revised?.status, 'deprecated');
+  });
+});
+
+describe('repository decision short IDs', () => {
+  const repos = ['a', 'b'].map((name) =>
+    fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), `.test-repo-ids-${name}-`)),
+    ),
+  );
+  const storages: Storage[] = [];
+
+  before(() => {
+    process.env.DECISION_LOG_STORE = 'repo';
+    try {
+      for (const repo of repos) {
+        fs.rmSync(storageDir(repo), { recursive: true, force: true });
+        execFileSync('git', ['init', '-q', repo]);
+        storages.push(new Storage(repo, randomUUID()));
+      }
+    } finally {
+      delete process.env.DECISION_LOG_STORE;
+    }
+  });
+
+  after(() => {
+    for (const repo of repos) {
+      fs.rmSync(repo, { recursive: true, force: true });
+      fs.rmSync(storageDir(repo), { recursive: true, force: true });
+    }
+  });
+
+  test('checkouts numbering independently never share one after a merge', () => {
+    const [ours, theirs] = storages;
+    const at = (topic: string, minute: number) =>
+      makeDecision({
+        topic,
+        timestamp: `2025-01-01T00:0${minute}:00.000Z`,
+      });
+    ours.addDecision(at('Our first', 1));
+    theirs.addDecision(at('Their first', 2));
+    ours.addDecision(at('Our second', 3));
+    assert.equal(theirs.readDecisions()[0].short_id, 'D-1');
+
+    const decisionsDir = (repo: string) =>
+      path.join(repo, '.decision-log', 'decisions');
+    for (const file of fs.readdirSync(decisionsDir(repos[1]))) {
+      const line = fs.readFileSync(
+        path.join(decisionsDir(repos[1]), file),
+        'utf-8',
+      );
+      assert.equal(JSON.parse(line).decision.short_id, undefined);
+      fs.writeFileSync(path.join(decisionsDir(repos[0]), file), line);
+    }
+
+    assert.deepEqual(
+      ours.readDecisions().map((d) => [d.topic, d.short_id]),
+      [
+        ['Our first', 'D-1'],
+        ['Their first', 'D-3'],
+        ['Our second', 'D-2'],
+      ],
+    );
+  });
+
+  test('importing older decisions keeps existing short IDs', () => {
+    const [ours] = storages;
+    ours.importDecisions([
+      makeDecision({
+        topic: 'Imported ADR',
+        timestamp: '2019-06-01T00:00:00.000Z',
+      }),
+    ]);
+    const teammate = makeDecision({
+      topic: 'Teammate backfill',
+      timestamp: '2020-01-01T00:00:00.000Z',
+    });
+    fs.writeFileSync(
+      path.join(repos[0], '.decision-log', 'decisions', `${teammate.id}.jsonl`),
+      `${JSON.stringify({ type: 'decision_logged', at: teammate.timestamp, session_id: 's', decision: teammate })}\n`,
+    );
+
+    assert.deepEqual(
+      ours.readDecisions().map((d) => [d.topic, d.short_id]),
+      [
+        ['Imported ADR', 'D-4'],
+        ['Teammate backfill', 'D-5'],
+        ['Our first', 'D-1'],
+        ['Their first', 'D-3'],
+        ['Our second', 'D-2'],
+      ],
+    );
+  });
+});
@@ -1,22 +1,192 @@
 import { randomUUID } from 'node:crypto';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import type { Storage } from './storage.js';
-import type { Decision, Problem } from './types.js';
+import { DEFAULT_ADR_DIR, exportAdrs, importAdrs } from './adr.js';
+import { approachLines, outcomeLabel } from './approaches.js';
+import { linkedPaths, normalizeLinkPath } from './code-links.js';
+import { type DeadEnd, findDeadEnds } from './dead-ends.js';
+import { findSimilarDecisions, type SimilarDecision } from './duplicates.js';
+import { openChildren, problemTree, relationNote } from './problem-tree.js';
+import { getHeadCommit, getProjectRoot } from './project-slug.js';
+import { projectStats, renderProjectStats } from './project-stats.js';
+import {
+  buildSessionReport,
+  findSession,
+  formatDuration,
+  renderSessionReport,
+} from './session-report.js';
+import type { Identified, Lookup } from './short-id.js';
+import type { DecisionQuery, ProblemQuery, Storage } from './storage.js';
+import {
+  ApproachOutcomeSchema,
+  type Decision,
+  type Problem,
+  type SessionMetadata,
+} from './types.js';
 
 const OptionSchema = z.object({
   name: z.string(),
   description: z.string(),
 });
 
-export function registerTools(
-  server: McpServer,
-  storage: Storage,
-  sessionId: string,
+const FilesSchema = z
+  .array(z.string())
+  .describe(
+    'Files or directories the decision governs, relative to the working directory or absolute; decisions_for_path finds decisions by these',
+  );
+
+const SymbolsSchema = z
+  .array(z.string())
+  .describe(
+    'Functions, classes or types the decision governs, e.g. "SessionStore.refresh"',
+  );
+
+const DateSchema = z.string().refine((v) => !Number.isNaN(Date.parse(v)), {
+  message: 'Expected an ISO date or timestamp',
+});
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const DEFAULT_PROBLEM_LIMIT = 10;
+const DEFAULT_SESSION_LIMIT = 20;
+
+const SUGGESTION_LIMIT = 5;
+const DEAD_END_LIMIT = 5;
+
+function shortId(x: Identified): string {
+  return x.short_id ?? x.id;
+}
+
+function statusFlag(
+  d: Decision,
+  ref: (id: string) => string = (id) => id,
+): string {
+  switch (d.status) {
+    case 'superseded':
+      return ` [SUPERSEDED by ${ref(d.superseded_by ?? '')}]`;
+    case 'deprecated':
+      return ` [DEPRECATED: ${d.deprecated_reason}]`;
+    default:
+      return '';
+  }
+}
+
+function linksLine(d: Decision): string {
+  const links = [...(d.files ?? []), ...(d.symbols ?? [])];
+  return links.length > 0 ? `\nLinked to: ${links.join(', ')}` : '';
+}
+
+function similarLine({ decision: d, kind }: SimilarDecision): string {
+  const what = kind === 'duplicate' ? 'same choice' : 'CONFLICTS';
+  return `- ${shortId(d)} (${what}): "${d.topic}" → ${d.chosen} — ${d.rationale}`;
+}
+
+/** A failed approach, labelled with where and when it failed. */
+function deadEndLines({ problem: p, approach: a, sameProblem }: DeadEnd) {
+  const where = sameProblem
+    ? `${shortId(p)} (this problem)`
+    : `${shortId(p)} "${p.problem}", ${a.timestamp.slice(0, 10)},`;
+  const [first, ...facts] = approachLines(a);
+  return [`- ${where} ${first.slice(2)}`, ...facts];
+}
+
+function deadEndList(deadEnds: DeadEnd[]): string {
+  return deadEnds.slice(0, DEAD_END_LIMIT).flatMap(deadEndLines).join('\n');
+}
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: 'text' as const, text }],
+    isError: true,
+  };
+}
+
+function notFound(kind: string, id: string) {
+  return errorResult(`${kind} not found: ${id}`);
+}
+
+/**
+ * Explain an ID that didn't resolve: list the candidates when it was
+ * ambiguous, otherwise `suggestions` the caller may have meant.
+ */
+function unresolved<T extends Identified>(
+  kind: 'Decision' | 'Problem',
+  ref: string,
+  lookup: Lookup<T>,
+  describe: (item: T) => string,
+  suggestions: { heading: string; items: T[] },
 ) {
+  const line = (item: T) =>
+    `- ${shortId(item)}: ${describe(item)} [${item.id}]`;
+  if (lookup.candidates.length > 1) {
+    return errorResult(
+      `${kind} ID "${ref}" is ambiguous. Candidates:\n${lookup.candidates.map(line).join('\n')}`,
+    );
+  }
+  const hint =
+    suggestions.items.length > 0
+      ? `\n${suggestions.heading}:\n${suggestions.items.slice(0, SUGGESTION_LIMIT).map(line).join('\n')}`
+      : '';
+  return errorResult(`${kind} not found: ${ref}${hint}`);
+}
+
+export function registerTools(server: McpServer, storage: Storage) {
+  const root = getProjectRoot(storage.getCwd());
+  const normalizeFiles = (files: string[]) =>
+    files.map((f) => normalizeLinkPath(root, storage.getCwd(), f));
+
+  // Links for a new decision; the commit defaults to the checked-out HEAD
+  const codeLinks = (
+    files: string[] | undefined,
+    symbols: string[] | undefined,
+    commit = getHeadCommit(root),
+  ): Pick<Decision, 'files' | 'symbols' | 'commit'> => ({
+    ...(files?.length ? { files } : {}),
+    ...(symbols?.length ? { symbols } : {}),
+    ...(commit ? { commit } : {}),
+  });
+
+  const decisionRef = (id: string) => storage.getDecision(id)?.short_id ?? id;
+
+  const notActive = (d: Decision) =>
+    errorResult(
+      `Decision "${d.topic}" is already ${d.status}${statusFlag(d, decisionRef)}. Only active decisions can be changed this way.`,
+    );
+
+  const findDecision = (ref: string) => {
+    const lookup = storage.lookupDecision(ref);
+    if (lookup.match) return { decision: lookup.match };
+    const recent = storage.searchDecisions({
+      sort: 'newest',
+      limit: SUGGESTION_LIMIT,
+    }).decisions;
+    return {
+      error: unresolved(
+        'Decision',
+        ref,
+        lookup,
+        (d) => `${d.topic} → ${d.chosen}`,
+        { heading: 'Recent decisions', items: recent },
+      ),
+    };
+  };
+
+  const findProblem = (ref: string, anySession = false) => {
+    const lookup = storage.lookupProblem(ref, { anySession });
+    if (lookup.match) return { problem: lookup.match };
+    const open = (
+      anySession ? storage.snapshot().problems : storage.readProblems()
+    ).filter((p) => p.status === 'open');
+    return {
+      error: unresolved('Problem', ref, lookup, (p) => p.problem, {
+        heading: anySession ? 'Open problems' : 'Open problems in this session',
+        items: open.reverse(),
+      }),
+    };
+  };
+
   server.tool(
     'log_decision',
-    'Record a project-level decision with options considered and rationale. Use this when you choose between approaches, pick a library, settle an architectural question, or make any choice that future sessions should know about. Decisions persist across sessions.',
+    'Record a project-level decision with options considered and rationale. Use this when you choose between approaches, pick a library, settle an architectural question, or make any choice that future sessions should know about. Decisions persist across sessions. A decision whose topic asks nearly the same question as an active one is refused unless `force` is set, and merely similar ones are listed with the result; use supersede_decision to replace an old decision instead.',
     {
       topic: z.string().describe('What the decision is about'),
       options: z.array(OptionSchema).describe('Options that were considered'),
@@ -26,24 +196,182 @@ export function registerTools(
         .array(z.string())
         .optional()
         .describe('Tags for categorization (e.g. "auth", "architecture")'),
+      files: FilesSchema.optional(),
+      symbols: SymbolsSchema.optional(),
+      commit: z
+        .string()
+        .optional()
+        .describe('Commit the decision refers to (default: the current HEAD)'),
+      force: z
+        .boolean()
+        .optional()
+        .describe(
+          'Log even though an active decision asks the same question (default: false)',
+        ),
     },
     async (args) => {
+      const similar = findSimilarDecisions(storage.readDecisions(), {
+        topic: args.topic,
+        chosen: args.chosen,
+        tags: args.tags ?? [],
+      });
+      const same = similar.find((s) => s.sameQuestion);
+      if (same && !args.force) {
+        const existing = shortId(same.decision);
+        return errorResult(
+          `Not logged: "${args.topic}" looks like it repeats or contradicts ${similar.length === 1 ? 'an existing decision' : 'existing decisions'}:\n${similar.map(similarLine).join('\n')}\n\nTo replace ${existing}, call supersede_decision with decision_id "${existing}" and this decision's options, chosen and rationale. If this is a separate decision, call log_decision again with force: true.`,
+        );
+      }
+
       const decision: Decision = {
         id: randomUUID(),
         timestamp: new Date().toISOString(),
-        session_id: sessionId,
+        session_id: storage.getSessionId(),
         topic: args.topic,
         options: args.options,
         chosen: args.chosen,
         rationale: args.rationale,
         tags: args.tags ?? [],
+        status: 'active',
+        ...codeLinks(
+          args.files && normalizeFiles(args.files),
+          args.symbols,
+          args.commit,
+        ),
       };
-      storage.addDecision(decision);
+      const logged = storage.addDecision(decision) ?? decision;
       return {
         content: [
           {
             type: 'text' as const,
-            text: `Decision logged: "${args.topic}" → ${args.chosen}`,
+            text: `Decision logged: "${args.topic}" → ${args.chosen}\nID: ${shortId(logged)}${linksLine(logged)}${similar.length > 0 ? `\nSimilar decisions still active:\n${similar.map(similarLine).join('\n')}` : ''}`,
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'supersede_decision',
+    'Replace an earlier decision with a new one. Use this when the team reverses or replaces a prior choice, so later sessions stop treating the old decision as current. The old decision is kept but marked superseded and linked to the new one.',
+    {
+      decision_id: z
+        .string()
+        .describe(
+          'ID of the decision being replaced, e.g. D-47 (see search_decisions)',
+        ),
+      topic: z
+        .string()
+        .optional()
+        .describe('What the new decision is about (default: the old topic)'),
+      options: z.array(OptionSchema).describe('Options that were considered'),
+      chosen: z.string().describe('Which option was chosen'),
+      rationale: z
+        .string()
+        .describe(
+          'Why this option was chosen and why the old one no longer holds',
+        ),
+      tags: z
+        .array(z.string())
+        .optional()
+        .describe('Tags for categorization (default: the old tags)'),
+      files: FilesSchema.optional().describe(
+        'Files or directories the new decision governs (default: the old ones)',
+      ),
+      symbols: SymbolsSchema.optional().describe(
+        'Symbols the new decision governs (default: the old ones)',
+      ),
+    },
+    async (args) => {
+      const { decision: old, error } = findDecision(args.decision_id);
+      if (!old) return error;
+      if (old.status !== 'active') return notActive(old);
+
+      const replacement: Decision = {
+        id: randomUUID(),
+        timestamp: new Date().toISOString(),
+        session_id: storage.getSessionId(),
+        topic: args.topic ?? old.topic,
+        options: args.options,
+        chosen: args.chosen,
+        rationale: args.rationale,
+        tags: args.tags ?? old.tags,
+        status: 'active',
+        ...codeLinks(
+          args.files ? normalizeFiles(args.files) : old.files,
+          args.symbols ?? old.symbols,
+        ),
+      };
+      storage.supersedeDecision(old.id, replacement);
+      const logged = storage.getDecision(replacement.id) ?? replacement;
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Decision superseded: "${old.topic}" (${old.chosen}) → "${replacement.topic}" (${replacement.chosen})\nID: ${shortId(logged)}`,
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'revise_decision',
+    'Amend an active decision in place — fix its wording, add a tag, or refine the rationale without changing what was chosen in substance. To reverse a decision, use supersede_decision instead.',
+    {
+      decision_id: z
+        .string()
+        .describe('ID of the decision to revise, e.g. D-47'),
+      topic: z.string().optional().describe('New topic'),
+      options: z.array(OptionSchema).optional().describe('New options list'),
+      chosen: z.string().optional().describe('New chosen option'),
+      rationale: z.string().optional().describe('New rationale'),
+      tags: z.array(z.string()).optional().describe('New tags'),
+      files: FilesSchema.optional().describe('New linked files or directories'),
+      symbols: SymbolsSchema.optional().describe('New linked symbols'),
+    },
+    async (args) => {
+      const { decision_id, ...changes } = args;
+      if (changes.files) changes.files = normalizeFiles(changes.files);
+      const { decision: d, error } = findDecision(decision_id);
+      if (!d) return error;
+      if (d.status !== 'active') return notActive(d);
+      if (Object.values(changes).every((v) => v === undefined)) {
+        return errorResult('Nothing to revise.');
+      }
+
+      const revised = storage.reviseDecision(d.id, changes);
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Decision revised: "${revised?.topic}" → ${revised?.chosen}`,
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'deprecate_decision',
+    'Retire a decision that no longer applies and has no replacement — e.g. the feature it governed was removed. Deprecated decisions are hidden from search by default.',
+    {
+      decision_id: z
+        .string()
+        .describe('ID of the decision to deprecate, e.g. D-47'),
+      reason: z.string().describe('Why the decision no longer applies'),
+    },
+    async (args) => {
+      const { decision: d, error } = findDecision(args.decision_id);
+      if (!d) return error;
+      if (d.status !== 'active') return notActive(d);
+
+      storage.deprecateDecision(d.id, args.reason);
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Decision deprecated: "${d.topic}" — ${args.reason}`,
           },
         ],
       };
@@ -57,106 +385,218 @@ export function registerTools(
       problem: z
         .string()
         .describe('Description of the problem being investigated'),
+      parent_id: z
+        .string()
+        .optional()
+        .describe(
+          'ID of the problem this one is part of, e.g. P-3 — for splitting "CI is red" into its separate failures',
+        ),
+      blocked_by: z
+        .array(z.string())
+        .optional()
+        .describe('IDs of problems that have to be solved before this one'),
     },
     async (args) => {
+      let parent: Problem | undefined;
+      if (args.parent_id) {
+        const found = findProblem(args.parent_id, true);
+        if (!found.problem) return found.error;
+        parent = found.problem;
+      }
+      const blockers: Problem[] = [];
+      for (const ref of args.blocked_by ?? []) {
+        const found = findProblem(ref, true);
+        if (!found.problem) return found.error;
+        if (!blockers.includes(found.problem)) blockers.push(found.problem);
+      }
+
       const problem: Problem = {
         id: randomUUID(),
-        session_id: sessionId,
+        session_id: storage.getSessionId(),
         problem: args.problem,
         status: 'open',
         created_at: new Date().toISOString(),
         approaches: [],
+        ...(parent && { parent_id: parent.id }),
+        ...(blockers.length > 0 && { blocked_by: blockers.map((b) => b.id) }),
       };
-      storage.addProblem(problem);
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Problem opened: "${args.problem}"\nID: ${problem.id}`,
-          },
-        ],
-      };
+      const opened = storage.addProblem(problem) ?? problem;
+      const lines = [
+        `Problem opened: "${args.problem}"`,
+        `ID: ${shortId(opened)}`,
+      ];
+      if (parent) {
+        lines.push(`Sub-problem of ${shortId(parent)}: ${parent.problem}`);
+      }
+      const waiting = blockers.filter((b) => b.status === 'open');
+      if (waiting.length > 0) {
+        lines.push(
+          `Blocked by: ${waiting.map((b) => `${shortId(b)} (${b.problem})`).join(', ')}`,
+        );
+      }
+      return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
     },
   );
 
   server.tool(
     'log_approach',
-    'Record a failed or successful approach to an open problem. Call this after each attempt, before trying the next one. Logging failures is critical — they prevent retrying dead ends if context gets compacted. Include error messages, stack traces, and the specific reason for failure.',
+    'Record an approach to an open problem and how it went. Call this after each attempt, before trying the next one. Logging failures is critical — they prevent retrying dead ends if context gets compacted. Include error messages, stack traces, and the specific reason for failure; record the hypothesis, exact commands and error signature so the attempt can be recognized later.',
     {
-      problem_id: z.string().describe('ID returned by open_problem'),
+      problem_id: z
+        .string()
+        .describe(
+          'ID returned by open_problem, e.g. P-12 (a bare number or a unique prefix of the full ID also works)',
+        ),
       approach: z.string().describe('What approach was tried'),
-      outcome: z
-        .enum(['failed', 'succeeded'])
-        .describe('Whether the approach failed or succeeded'),
+      outcome: ApproachOutcomeSchema.describe(
+        'How it went: failed, succeeded, partial (progress without a fix, e.g. narrowed the cause down), inconclusive (ruled nothing in or out), or in_progress (still running; log it again when it finishes)',
+      ),
       details: z
         .string()
         .describe('What happened — error messages, why it failed, what worked'),
+      hypothesis: z
+        .string()
+        .optional()
+        .describe('What the approach was meant to confirm or rule out'),
+      commands: z
+        .array(z.string())
+        .optional()
+        .describe('Commands run, exactly as typed'),
+      files_changed: z
+        .array(z.string())
+        .optional()
+        .describe('Files the approach edited'),
+      error_signature: z
+        .string()
+        .optional()
+        .describe(
+          'The distinctive part of the error, e.g. "ECONNRESET" or "TypeError: x is not a function"',
+        ),
     },
     async (args) => {
-      const p = storage.updateProblem(args.problem_id, (p) => {
-        p.approaches.push({
-          approach: args.approach,
-          outcome: args.outcome,
-          details: args.details,
-          timestamp: new Date().toISOString(),
-        });
+      const { problem, error } = findProblem(args.problem_id);
+      if (!problem) return error;
+      const deadEnds = findDeadEnds(storage.snapshot().problems, problem, args);
+      const p = storage.logApproach(problem.id, {
+        approach: args.approach,
+        outcome: args.outcome,
+        details: args.details,
+        timestamp: new Date().toISOString(),
+        ...(args.hypothesis && { hypothesis: args.hypothesis }),
+        ...(args.commands?.length && { commands: args.commands }),
+        ...(args.files_changed?.length && {
+          files_changed: args.files_changed,
+        }),
+        ...(args.error_signature && { error_signature: args.error_signature }),
       });
-      if (!p) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `Problem not found: ${args.problem_id}`,
-            },
-          ],
-          isError: true,
-        };
-      }
-      const label = args.outcome === 'failed' ? 'FAILED' : 'SUCCEEDED';
+      if (!p) return notFound('Problem', args.problem_id);
       return {
         content: [
           {
             type: 'text' as const,
-            text: `Approach logged [${label}]: ${args.approach} (problem: ${p.problem})`,
+            text: `Approach logged [${outcomeLabel(args.outcome)}]: ${args.approach} (problem: ${p.problem})${deadEnds.length > 0 ? `\n\nWarning: this resembles approach(es) that already failed:\n${deadEndList(deadEnds)}` : ''}`,
           },
         ],
       };
     },
   );
 
+  server.tool(
+    'check_approach',
+    'Check an approach against the failures already recorded, before trying it. Compares it with the failed approaches on this problem and on similar problems from earlier sessions, and reports likely repeats with what went wrong last time. Use this after compaction or when picking up a problem, before spending time on an attempt.',
+    {
+      problem_id: z
+        .string()
+        .describe(
+          'ID of the problem the approach is for, e.g. P-12 (from open_problem or resume_problem)',
+        ),
+      approach: z.string().describe('The approach you are about to try'),
+      commands: z
+        .array(z.string())
+        .optional()
+        .describe('Commands you are about to run'),
+    },
+    async (args) => {
+      const { problem, error } = findProblem(args.problem_id, true);
+      if (!problem) return error;
+      const deadEnds = findDeadEnds(storage.snapshot().problems, problem, args);
+      const text =
+        deadEnds.length > 0
+          ? `Likely dead end: "${args.approach}" resembles ${deadEnds.length} approach(es) that already failed:\n${deadEndList(deadEnds)}\n\nTry something else, or be clear about what is different this time before spending time on it.`
+          : `No failed approach on ${shortId(problem)} or similar problems resembles "${args.approach}".`;
+      return { content: [{ type: 'text' as const, text }] };
+    },
+  );
+
   server.tool(
     'close_problem',
-    'Mark a problem as solved. Use this when you find the root cause or a working solution. Summarize what finally worked and why.',
+    'Mark a problem as solved. Use this when you find the root cause or a working solution. Summarize what finally worked and why. Closing a problem whose sub-problems are still open warns about them.',
     {
-      problem_id: z.string().describe('ID returned by open_problem'),
+      problem_id: z
+        .string()
+        .describe(
+          'ID returned by open_problem, e.g. P-12 (a bare number or a unique prefix of the full ID also works)',
+        ),
       resolution: z
         .string()
         .describe('Summary of the resolution — what finally worked and why'),
     },
     async (args) => {
-      const p = storage.updateProblem(args.problem_id, (p) => {
-        p.status = 'resolved';
-        p.resolution = args.resolution;
-      });
-      if (!p) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `Problem not found: ${args.problem_id}`,
-            },
-          ],
-          isError: true,
-        };
+      const { problem, error } = findProblem(args.problem_id);
+      if (!problem) return error;
+      const p = storage.closeProblem(problem.id, args.resolution);
+      if (!p) return notFound('Problem', args.problem_id);
+      const lines = [
+        `Problem closed: "${p.problem}"`,
+        `Resolution: ${args.resolution}`,
+        `Approaches: ${p.approaches.length} (${p.approaches.filter((a) => a.outcome === 'failed').length} failed)`,
+      ];
+      const children = openChildren(storage.snapshot().problems, p.id);
+      if (children.length > 0) {
+        lines.push(
+          '',
+          `Warning: ${children.length} sub-problem(s) are still open:`,
+          ...children.map((c) => `- ${c.problem} [id: ${shortId(c)}]`),
+          'Close them too if this resolution covers them.',
+        );
       }
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Problem closed: "${p.problem}"\nResolution: ${args.resolution}\nApproaches: ${p.approaches.length} (${p.approaches.filter((a) => a.outcome === 'failed').length} failed)`,
-          },
-        ],
-      };
+      return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
+    },
+  );
+
+  server.tool(
+    'resume_problem',
+    'Continue an unresolved problem from an earlier session in this one. The problem keeps its full approach history, so dead ends already explored stay visible. Use this when the SessionStart hook or search_problems shows an open problem you are about to work on again.',
+    {
+      problem_id: z
+        .string()
+        .describe(
+          'ID of the open problem, e.g. P-12 (from SessionStart or search_problems)',
+        ),
+    },
+    async (args) => {
+      const { problem: existing, error } = findProblem(args.problem_id, true);
+      if (!existing) return error;
+      if (existing.session_id === storage.getSessionId()) {
+        return errorResult(
+          `Problem "${existing.problem}" is already in this session.`,
+        );
+      }
+      if (existing.status !== 'open') {
+        return errorResult(
+          `Problem "${existing.problem}" was already resolved: ${existing.resolution}`,
+        );
+      }
+
+      const p = storage.resumeProblem(existing.id);
+      if (!p) return notFound('Problem', args.problem_id);
+      const lines = [
+        `Problem resumed: "${p.problem}"`,
+        `ID: ${shortId(p)}`,
+        `Carried over from session ${p.resumed_from} with ${p.approaches.length} approach(es):`,
+      ];
+      for (const a of p.approaches) lines.push(...approachLines(a));
+      return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
     },
   );
 
@@ -165,22 +605,26 @@ export function registerTools(
     'Reload all session state — decisions, open problems with full approach history, and resolved problems. Call this after context compaction to restore your working memory. The PreCompact hook injects a summary automatically, but this tool gives you the complete picture.',
     {},
     async () => {
+      const sessionId = storage.getSessionId();
       const decisions = storage
         .readDecisions()
         .filter((d) => d.session_id === sessionId);
       const problems = storage.readProblems();
+      const allProblems = storage.snapshot().problems;
 
       const parts: string[] = [];
 
       if (problems.length > 0) {
         parts.push('## Problems\n');
-        for (const p of problems) {
+        for (const node of problemTree(problems)) {
+          const p = node.problem;
           const status = p.status === 'open' ? 'OPEN' : 'RESOLVED';
-          parts.push(`### [${status}] ${p.problem}`);
-          for (const a of p.approaches) {
-            const label = a.outcome === 'failed' ? 'FAILED' : 'SUCCEEDED';
-            parts.push(`- ${label}: ${a.approach} — ${a.details}`);
-          }
+          const nesting =
+            node.depth > 0 ? `${'  '.repeat(node.depth - 1)}↳ ` : '';
+          parts.push(
+            `### ${nesting}[${status}] ${p.problem} [id: ${shortId(p)}]${relationNote(node, allProblems)}`,
+          );
+          for (const a of p.approaches) parts.push(...approachLines(a));
           if (p.resolution) {
             parts.push(`- RESOLUTION: ${p.resolution}`);
           }
@@ -191,13 +635,18 @@ export function registerTools(
       if (decisions.length > 0) {
         parts.push('## Decisions This Session\n');
         for (const d of decisions) {
-          parts.push(`- **${d.topic}**: ${d.chosen} — ${d.rationale}`);
+          parts.push(
+            `- **${d.topic}**: ${d.chosen} — ${d.rationale}${statusFlag(d, decisionRef)}`,
+          );
         }
         parts.push('');
       }
 
-      const allDecisions = storage.readDecisions();
-      const otherDecisions = allDecisions.length - decisions.length;
+      const otherDecisions = storage
+        .readDecisions()
+        .filter(
+          (d) => d.session_id !== sessionId && d.status === 'active',
+        ).length;
       if (otherDecisions > 0) {
         parts.push(
           `\n${otherDecisions} additional project decision(s) from prior sessions. Search them before making overlapping decisions.`,
@@ -215,7 +664,7 @@ export function registerTools(
 
   server.tool(
     'list_problems',
-    'List all problems in the current session, optionally filtered by status. Use this to check what problems are still open before starting new work or to get problem IDs.',
+    'List all problems in the current session, optionally filtered by status, with sub-problems indented under their parent. Use this to check what problems are still open before starting new work or to get problem IDs.',
     {
       status: z
         .enum(['open', 'resolved', 'all'])
@@ -234,7 +683,9 @@ export function registerTools(
         };
       }
 
-      const lines = problems.map((p) => {
+      const allProblems = storage.snapshot().problems;
+      const lines = problemTree(problems).map((node) => {
+        const p = node.problem;
         const status = p.status === 'open' ? 'OPEN' : 'RESOLVED';
         const approachCount = p.approaches.length;
         const failCount = p.approaches.filter(
@@ -243,7 +694,7 @@ export function registerTools(
         const summary = p.resolution
           ? ` → ${p.resolution}`
           : ` (${approachCount} approach${approachCount !== 1 ? 'es' : ''}, ${failCount} failed)`;
-        return `- [${status}] ${p.problem}${summary} [id: ${p.id}]`;
+        return `${'  '.repeat(node.depth)}- [${status}] ${p.problem}${summary} [id: ${shortId(p)}]${relationNote(node, allProblems)}`;
       });
 
       return {
@@ -259,32 +710,432 @@ export function registerTools(
 
   server.tool(
     'search_decisions',
-    'Search project decisions across all sessions by keyword or tags. Use this before making a decision that might overlap with prior work, or when the SessionStart hook tells you prior decisions exist.',
+    'Search project decisions across all sessions by keyword or tags. Results are ranked by relevance. Use this before making a decision that might overlap with prior work, or when the SessionStart hook tells you prior decisions exist.',
     {
       query: z
         .string()
         .optional()
-        .describe('Search text (matches topic, chosen option, rationale)'),
+        .describe(
+          'Search text, matched against topic, chosen option, rationale and options. Words are matched loosely ("caching" finds "cache"); use "quotes" for an exact phrase and -word or -"phrase" to exclude.',
+        ),
       tags: z.array(z.string()).optional().describe('Filter by tags'),
+      tag_mode: z
+        .enum(['any', 'all', 'none'])
+        .optional()
+        .describe(
+          'How tags must match: any of them (default), all of them, or none of them',
+        ),
+      since: DateSchema.optional().describe(
+        'Only decisions made at or after this ISO date/timestamp',
+      ),
+      until: DateSchema.optional().describe(
+        'Only decisions made at or before this ISO date/timestamp (a bare date includes the whole day)',
+      ),
+      session_id: z
+        .string()
+        .optional()
+        .describe('Only decisions made in this session'),
+      include_inactive: z
+        .boolean()
+        .optional()
+        .describe(
+          'Also return superseded and deprecated decisions (default: false)',
+        ),
+      sort: z
+        .enum(['relevance', 'newest', 'oldest'])
+        .optional()
+        .describe(
+          'Result order (default: relevance with a query, otherwise oldest first)',
+        ),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe(
+          `Maximum results to return (default: ${DEFAULT_SEARCH_LIMIT})`,
+        ),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe('Number of results to skip, for paging (default: 0)'),
+    },
+    async (args) => {
+      const query: DecisionQuery = {
+        query: args.query,
+        tags: args.tags,
+        tagMode: args.tag_mode,
+        since: args.since,
+        until: args.until,
+        sessionId: args.session_id,
+        includeInactive: args.include_inactive,
+        sort: args.sort,
+        limit: args.limit ?? DEFAULT_SEARCH_LIMIT,
+        offset: args.offset,
+      };
+      const { decisions, total } = storage.searchDecisions(query);
+      storage.noteReferences(decisions.map((d) => d.id));
+      const hidden = args.include_inactive
+        ? 0
+        : storage.searchDecisions({ ...query, includeInactive: true }).total -
+          total;
+      const hiddenNote =
+        hidden > 0
+          ? `\n\n${hidden} superseded or deprecated decision(s) hidden — pass include_inactive to see them.`
+          : '';
+      if (decisions.length === 0) {
+        const text =
+          total > 0
+            ? `No decisions at offset ${query.offset} (${total} match(es) in total).`
+            : 'No matching decisions found.';
+        return {
+          content: [{ type: 'text' as const, text: `${text}${hiddenNote}` }],
+        };
+      }
+      const first = (query.offset ?? 0) + 1;
+      const last = first + decisions.length - 1;
+      const range =
+        decisions.length < total ? ` (showing ${first}–${last})` : '';
+      const more =
+        last < total
+          ? `\n\n${total - last} more — pass offset: ${last} to see the next page.`
+          : '';
+      const lines = decisions.map(
+        (d) =>
+          `- [${d.timestamp.slice(0, 10)}] **${d.topic}**: ${d.chosen} — ${d.rationale}${d.tags.length ? ` (tags: ${d.tags.join(', ')})` : ''}${statusFlag(d, decisionRef)} [id: ${shortId(d)}]`,
+      );
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Found ${total} decision(s)${range}:\n\n${lines.join('\n')}${more}${hiddenNote}`,
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'decisions_for_path',
+    'List decisions linked to a file or directory, or to any directory containing it. Call this before changing code to learn what was already decided about it.',
+    {
+      path: z
+        .string()
+        .describe(
+          'File or directory, relative to the working directory or absolute',
+        ),
+      include_inactive: z
+        .boolean()
+        .optional()
+        .describe(
+          'Also return superseded and deprecated decisions (default: false)',
+        ),
+    },
+    async (args) => {
+      const file = normalizeLinkPath(root, storage.getCwd(), args.path);
+      const { decisions } = storage.searchDecisions({
+        path: file,
+        includeInactive: args.include_inactive,
+        sort: 'newest',
+      });
+      if (decisions.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `No decisions linked to ${file}.`,
+            },
+          ],
+        };
+      }
+      storage.noteReferences(decisions.map((d) => d.id));
+      const lines = decisions.map((d) => {
+        const via = linkedPaths(d.files, file).filter((f) => f !== file);
+        const symbols = d.symbols?.length
+          ? ` (symbols: ${d.symbols.join(', ')})`
+          : '';
+        const commit = d.commit ? ` @ ${d.commit.slice(0, 7)}` : '';
+        return `- [${d.timestamp.slice(0, 10)}] **${d.topic}**: ${d.chosen} — ${d.rationale}${symbols}${via.length ? ` (via ${via.join(', ')})` : ''}${commit}${statusFlag(d, decisionRef)} [id: ${shortId(d)}]`;
+      });
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `${decisions.length} decision(s) linked to ${file}:\n\n${lines.join('\n')}`,
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'search_problems',
+    'Search problems from every session of this project — including past sessions — along with the approaches tried and how they were resolved. Use this when an error, flaky test or build failure looks familiar, before you start debugging it again.',
+    {
+      query: z
+        .string()
+        .optional()
+        .describe(
+          'Search text, matched against problem descriptions, resolutions and approaches. Same syntax as search_decisions.',
+        ),
+      status: z
+        .enum(['open', 'resolved', 'all'])
+        .optional()
+        .describe('Filter by problem status (default: all)'),
+      outcome: ApproachOutcomeSchema.optional().describe(
+        'Only problems with an approach that had this outcome, and show only those approaches',
+      ),
+      session_id: z
+        .string()
+        .optional()
+        .describe('Only problems from this session'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(50)
+        .optional()
+        .describe(
+          `Maximum results to return (default: ${DEFAULT_PROBLEM_LIMIT})`,
+        ),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe('Number of results to skip, for paging (default: 0)'),
+    },
+    async (args) => {
+      const query: ProblemQuery = {
+        query: args.query,
+        status: args.status === 'all' ? undefined : args.status,
+        outcome: args.outcome,
+        sessionId: args.session_id,
+        limit: args.limit ?? DEFAULT_PROBLEM_LIMIT,
+        offset: args.offset,
+      };
+      const { problems, total } = storage.searchProblems(query);
+      if (problems.length === 0) {
+        return {
+          content: [
+            { type: 'text' as const, text: 'No matching problems found.' },
+          ],
+        };
+      }
+
+      const sessionId = storage.getSessionId();
+      const blocks = problems.map((p) => {
+        const status = p.status === 'open' ? 'OPEN' : 'RESOLVED';
+        const when =
+          p.session_id === sessionId
+            ? 'this session'
+            : `${p.created_at.slice(0, 10)}, session ${p.session_id}`;
+        const lines = [
+          `### [${status}] ${p.problem} (${when}) [id: ${shortId(p)}]`,
+        ];
+        for (const a of p.approaches) {
+          if (args.outcome && a.outcome !== args.outcome) continue;
+          lines.push(...approachLines(a));
+        }
+        if (p.resolution) lines.push(`- RESOLUTION: ${p.resolution}`);
+        return lines.join('\n');
+      });
+
+      const last = (query.offset ?? 0) + problems.length;
+      const more =
+        last < total
+          ? `\n\n${total - last} more — pass offset: ${last} to see the next page.`
+          : '';
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Found ${total} problem(s):\n\n${blocks.join('\n\n')}${more}`,
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'list_sessions',
+    'List the sessions recorded for this project, newest first, with their branch, when they were last active, and how many decisions and problems each has. Use this to find a session for session_report.',
+    {
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe(
+          `Maximum sessions to return (default: ${DEFAULT_SESSION_LIMIT})`,
+        ),
+    },
+    async (args) => {
+      const all = storage.listSessions().reverse();
+      if (all.length === 0) {
+        return {
+          content: [{ type: 'text' as const, text: 'No sessions recorded.' }],
+        };
+      }
+      const sessionId = storage.getSessionId();
+      const state = storage.snapshot();
+      const sessions = all.slice(0, args.limit ?? DEFAULT_SESSION_LIMIT);
+      const lines = sessions.map((meta) => {
+        const r = buildSessionReport(meta.session_id, meta, state);
+        const opened = r.resolved.length + r.unresolved.length;
+        const details = [
+          meta.git_branch ? `branch ${meta.git_branch}` : null,
+          `${r.decisions.length} decision(s)`,
+          `${opened} problem(s)${r.unresolved.length > 0 ? ` (${r.unresolved.length} open)` : ''}`,
+          r.last_activity_at
+            ? `last active ${r.last_activity_at.slice(0, 16).replace('T', ' ')}`
+            : null,
+          meta.ended_at
+            ? `ended after ${formatDuration(Date.parse(meta.ended_at) - Date.parse(meta.started_at))}`
+            : null,
+        ].filter(Boolean);
+        const current = meta.session_id === sessionId ? ' (this session)' : '';
+        return `- ${meta.started_at.slice(0, 16).replace('T', ' ')} ${meta.session_id}${current} — ${details.join(', ')}`;
+      });
+      const more =
+        all.length > sessions.length
+          ? `\n\n${all.length - sessions.length} older session(s) not shown.`
+          : '';
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `${all.length} session(s):\n\n${lines.join('\n')}${more}`,
+          },
+        ],
+      };
+    },
+  );
+
+  server.tool(
+    'session_report',
+    'Summarize one session as Markdown for a standup or PR description: decisions made, problems resolved with their time to resolution, failed-approach counts, and what is still unresolved.',
+    {
+      session_id: z
+        .string()
+        .optional()
+        .describe(
+          'Session to report on, or a unique prefix of its ID (default: this session)',
+        ),
     },
     async (args) => {
-      const results = storage.searchDecisions(args.query, args.tags);
-      if (results.length === 0) {
+      const sessions = storage.listSessions();
+      let sessionId = storage.getSessionId();
+      if (args.session_id) {
+        const lookup = findSession(sessions, args.session_id);
+        if (!lookup.match) {
+          const line = (s: SessionMetadata) =>
+            `- ${s.session_id} (started ${s.started_at.slice(0, 16).replace('T', ' ')})`;
+          const recent = sessions.slice(-SUGGESTION_LIMIT).reverse();
+          return errorResult(
+            lookup.candidates.length > 1
+              ? `Session ID "${args.session_id}" is ambiguous. Candidates:\n${lookup.candidates.map(line).join('\n')}`
+              : `Session not found: ${args.session_id}${recent.length > 0 ? `\nRecent sessions:\n${recent.map(line).join('\n')}` : ''}`,
+          );
+        }
+        sessionId = lookup.match.session_id;
+      }
+      const meta = sessions.find((s) => s.session_id === sessionId) ?? null;
+      const report = buildSessionReport(sessionId, meta, storage.snapshot());
+      return {
+        content: [{ type: 'text' as const, text: renderSessionReport(report) }],
+      };
+    },
+  );
+
+  server.tool(
+    'project_stats',
+    'Aggregate every session of the project: problems opened and resolved, median approaches before success, median time to resolution, the most common failure signatures and decision tags, and decisions per week. Use this to see where sessions spend their time.',
+    {
+      format: z
+        .enum(['text', 'json'])
+        .optional()
+        .describe('text for reading, json for dashboards (default: text)'),
+    },
+    async (args) => {
+      const stats = projectStats(
+        storage.snapshot(),
+        storage.listSessions().length,
+      );
+      const text =
+        args.format === 'json'
+          ? JSON.stringify(stats, null, 2)
+          : renderProjectStats(stats);
+      return { content: [{ type: 'text' as const, text }] };
+    },
+  );
+
+  server.tool(
+    'export_decisions',
+    'Write every project decision to a directory as Markdown Architecture Decision Records (MADR format), so teammates without this plugin can read them. Re-exporting keeps existing ADR numbers and only rewrites files whose content changed.',
+    {
+      directory: z
+        .string()
+        .optional()
+        .describe(
+          `ADR directory, relative to the project root (default: ${DEFAULT_ADR_DIR})`,
+        ),
+    },
+    async (args) => {
+      const dir = args.directory ?? DEFAULT_ADR_DIR;
+      const result = exportAdrs(storage.readDecisions(), storage.getCwd(), dir);
+      const lines = [
+        `Exported ${result.written.length} ADR(s) to ${dir} (${result.unchanged} unchanged${result.skipped ? `, ${result.skipped} imported from there left as is` : ''}).`,
+        ...result.written.map((f) => `- ${f}`),
+      ];
+      return { content: [{ type: 'text' as const, text: lines.join('\n') }] };
+    },
+  );
+
+  server.tool(
+    'import_decisions',
+    "Read an existing directory of Architecture Decision Records (MADR or Nygard style) into the decision log, so the repo's historical decisions become searchable. ADRs already in the log are skipped.",
+    {
+      directory: z
+        .string()
+        .optional()
+        .describe(
+          `ADR directory, relative to the project root (default: ${DEFAULT_ADR_DIR})`,
+        ),
+    },
+    async (args) => {
+      const dir = args.directory ?? DEFAULT_ADR_DIR;
+      const { decisions, duplicateNumbers } = importAdrs(
+        storage.readDecisions(),
+        storage.getSessionId(),
+        storage.getCwd(),
+        dir,
+      );
+      storage.importDecisions(decisions);
+      const duplicateNote =
+        duplicateNumbers.length > 0
+          ? `\n\nThese files share an ADR number, so supersession naming it was not linked: ${duplicateNumbers.join(', ')}`
+          : '';
+      if (decisions.length === 0) {
         return {
           content: [
-            { type: 'text' as const, text: 'No matching decisions found.' },
+            { type: 'text' as const, text: `No new ADRs found in ${dir}.` },
           ],
         };
       }
-      const lines = results.map(
+      const lines = decisions.map(
         (d) =>
-          `- [${d.timestamp.slice(0, 10)}] **${d.topic}**: ${d.chosen} — ${d.rationale}${d.tags.length ? ` (tags: ${d.tags.join(', ')})` : ''}`,
+          `- ${d.source}: ${d.topic} → ${d.chosen}${statusFlag(d, decisionRef)}`,
       );
       return {
         content: [
           {
             type: 'text' as const,
-            text: `Found ${results.length} decision(s):\n\n${lines.join('\n')}`,
+            text: `Imported ${decisions.length} decision(s) from ${dir}:\n\n${lines.join('\n')}${duplicateNote}`,
           },
         ],
       };
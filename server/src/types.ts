@@ -1,34 +1,200 @@
-export interface Decision {
-  id: string;
-  timestamp: string;
-  session_id: string;
-  topic: string;
-  options: Array<{ name: string; description: string }>;
-  chosen: string;
-  rationale: string;
-  tags: string[];
-}
+import { z } from 'zod';
 
-export interface Approach {
-  approach: string;
-  outcome: 'failed' | 'succeeded';
-  details: string;
-  timestamp: string;
-}
+// Everything the log stores. The zod schemas check what is read back from
+// disk and the types are inferred from them, so the two can't drift apart.
+// Readers validate against a schema but keep the record as written, so
+// fields added by a newer version survive being read by an older one.
 
-export interface Problem {
-  id: string;
-  session_id: string;
-  problem: string;
-  status: 'open' | 'resolved';
-  created_at: string;
-  approaches: Approach[];
-  resolution?: string;
-}
+export const DecisionStatusSchema = z.enum([
+  'active',
+  'superseded',
+  'deprecated',
+]);
+export type DecisionStatus = z.infer<typeof DecisionStatusSchema>;
+
+export const DecisionSchema = z.object({
+  id: z.string(),
+  /** Per-project sequential ID such as `D-47`; see short-id.ts. */
+  short_id: z.string().optional(),
+  timestamp: z.string(),
+  session_id: z.string(),
+  topic: z.string(),
+  options: z.array(z.object({ name: z.string(), description: z.string() })),
+  chosen: z.string(),
+  rationale: z.string(),
+  tags: z.array(z.string()),
+  status: DecisionStatusSchema,
+  supersedes: z.string().optional(),
+  superseded_by: z.string().optional(),
+  deprecated_reason: z.string().optional(),
+  revised_at: z.string().optional(),
+  /** How many times search results have surfaced this decision. */
+  reference_count: z.number().optional(),
+  /** ADR file the decision was imported from, relative to the project root. */
+  source: z.string().optional(),
+  /** Files or directories the decision governs, relative to the project root. */
+  files: z.array(z.string()).optional(),
+  /** Functions, classes, types etc. the decision governs. */
+  symbols: z.array(z.string()).optional(),
+  /** Commit checked out when the decision was made. */
+  commit: z.string().optional(),
+});
+export type Decision = z.infer<typeof DecisionSchema>;
+
+export const DecisionRevisionSchema = DecisionSchema.pick({
+  topic: true,
+  options: true,
+  chosen: true,
+  rationale: true,
+  tags: true,
+  files: true,
+  symbols: true,
+}).partial();
+export type DecisionRevision = z.infer<typeof DecisionRevisionSchema>;
+
+export const ApproachOutcomeSchema = z.enum([
+  'failed',
+  'succeeded',
+  /** Made progress, e.g. narrowed the cause down, without fixing it. */
+  'partial',
+  /** Neither confirmed nor ruled anything out. */
+  'inconclusive',
+  /** Still being tried; logged again with its outcome when done. */
+  'in_progress',
+]);
+export type ApproachOutcome = z.infer<typeof ApproachOutcomeSchema>;
+
+export const ApproachSchema = z.object({
+  approach: z.string(),
+  outcome: ApproachOutcomeSchema,
+  details: z.string(),
+  timestamp: z.string(),
+  /** What the approach was meant to confirm or rule out. */
+  hypothesis: z.string().optional(),
+  /** Commands run, exactly as typed. */
+  commands: z.array(z.string()).optional(),
+  files_changed: z.array(z.string()).optional(),
+  /** The distinctive part of the error it ran into, e.g. `ECONNRESET`. */
+  error_signature: z.string().optional(),
+});
+export type Approach = z.infer<typeof ApproachSchema>;
+
+export const ProblemSchema = z.object({
+  id: z.string(),
+  /** Per-project sequential ID such as `P-12`. */
+  short_id: z.string().optional(),
+  session_id: z.string(),
+  problem: z.string(),
+  status: z.enum(['open', 'resolved']),
+  created_at: z.string(),
+  approaches: z.array(ApproachSchema),
+  resolution: z.string().optional(),
+  /** When close_problem was called. */
+  resolved_at: z.string().optional(),
+  /** Session the problem was carried over from by resume_problem. */
+  resumed_from: z.string().optional(),
+  /** The problem this one was split off from. */
+  parent_id: z.string().optional(),
+  /** Problems that have to be solved before this one can be. */
+  blocked_by: z.array(z.string()).optional(),
+});
+export type Problem = z.infer<typeof ProblemSchema>;
+
+export const SessionMetadataSchema = z.object({
+  session_id: z.string(),
+  project_slug: z.string(),
+  cwd: z.string(),
+  started_at: z.string(),
+  resumed_at: z.string().optional(),
+  /** Branch checked out when the session started or was last resumed. */
+  git_branch: z.string().optional(),
+  /** When the session last wrote to the log. */
+  last_activity_at: z.string().optional(),
+  /** When Claude Code reported the session over. */
+  ended_at: z.string().optional(),
+});
+export type SessionMetadata = z.infer<typeof SessionMetadataSchema>;
+
+/** How often each decision was surfaced to Claude, by decision ID. */
+export const ReferenceCountsSchema = z.record(z.string(), z.number());
+
+/** A decision as logged; records from before lifecycles have no status. */
+export const LoggedDecisionSchema = DecisionSchema.extend({
+  status: DecisionStatusSchema.optional(),
+});
+
+const EventBase = z.object({
+  at: z.string(),
+  session_id: z.string(),
+});
+
+export const LogEventSchema = z.discriminatedUnion('type', [
+  EventBase.extend({
+    type: z.literal('decision_logged'),
+    decision: LoggedDecisionSchema,
+  }),
+  EventBase.extend({
+    type: z.literal('decision_revised'),
+    decision_id: z.string(),
+    changes: DecisionRevisionSchema,
+  }),
+  EventBase.extend({
+    type: z.literal('decision_superseded'),
+    decision_id: z.string(),
+    superseded_by: z.string(),
+  }),
+  EventBase.extend({
+    type: z.literal('decision_deprecated'),
+    decision_id: z.string(),
+    reason: z.string(),
+  }),
+  EventBase.extend({
+    type: z.literal('decision_deleted'),
+    decision_id: z.string(),
+  }),
+  EventBase.extend({
+    type: z.literal('decisions_referenced'),
+    decision_ids: z.array(z.string()),
+  }),
+  // Short IDs for decisions kept in a repository store, which are numbered
+  // by each checkout rather than written into the shared files
+  EventBase.extend({
+    type: z.literal('short_ids_assigned'),
+    short_ids: z.record(z.string(), z.string()),
+  }),
+  EventBase.extend({
+    type: z.literal('problem_opened'),
+    problem: ProblemSchema.omit({
+      approaches: true,
+      status: true,
+      resolution: true,
+      resolved_at: true,
+      resumed_from: true,
+    }),
+  }),
+  EventBase.extend({
+    type: z.literal('approach_logged'),
+    problem_id: z.string(),
+    approach: ApproachSchema,
+  }),
+  EventBase.extend({
+    type: z.literal('problem_resumed'),
+    problem_id: z.string(),
+    from_session_id: z.string(),
+  }),
+  EventBase.extend({
+    type: z.literal('problem_closed'),
+    problem_id: z.string(),
+    resolution: z.string(),
+  }),
+]);
+export type LogEvent = z.infer<typeof LogEventSchema>;
 
-export interface SessionMetadata {
-  session_id: string;
-  project_slug: string;
-  cwd: string;
-  started_at: string;
+/** A one-line description of why `value` doesn't match `schema`, or null. */
+export function schemaError(schema: z.ZodType, value: unknown): string | null {
+  const result = schema.safeParse(value);
+  if (result.success) return null;
+  const [issue] = result.error.issues;
+  const where = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+  return `${where}${issue.message}`;
 }